@@ -0,0 +1,17 @@
+/** @type {import('eslint').Linter.Config} */
+module.exports = {
+  root: true,
+  env: { node: true, es2022: true },
+  // The recommended config brings @typescript-eslint/parser along
+  extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  ignorePatterns: ['dist', 'node_modules'],
+  rules: {
+    // Convex's generic types are threaded through as any, like Convex does itself
+    '@typescript-eslint/no-explicit-any': 'off',
+    // {} is the empty index set in Convex's table definition types
+    '@typescript-eslint/ban-types': [
+      'error',
+      { types: { '{}': false }, extendDefaults: true },
+    ],
+  },
+}
@@ -2,12 +2,15 @@
 
 import { Command } from 'commander'
 import { watch } from 'chokidar'
-import { resolve } from 'path'
+import { relative, resolve } from 'path'
 import { existsSync, mkdirSync } from 'fs'
 import {
   parseSchemaFile,
+  loadSchemaMetadata,
+  lintSchema,
   generateConstraintCode,
   writeGeneratedCode,
+  writeTablesCode,
 } from './generator/index.js'
 
 const program = new Command()
@@ -22,9 +25,15 @@ program
   .description('Generate constraint code from schema file')
   .option('-s, --schema <file>', 'Schema file path', 'convex/schema.ts')
   .option('-o, --output <dir>', 'Output directory', 'convex/_sql')
+  .option(
+    '-r, --runtime',
+    'Read constraints by loading the schema module instead of parsing it'
+  )
   .action(async (options) => {
     try {
-      await generateFromSchema(options.schema, options.output)
+      await generateFromSchema(options.schema, options.output, {
+        runtime: options.runtime,
+      })
       console.log('✅ Constraint code generated successfully')
     } catch (error) {
       console.error('❌ Error generating constraint code:', error)
@@ -34,30 +43,42 @@ program
 
 program
   .command('watch')
-  .description('Watch schema file and regenerate constraint code on changes')
+  .description(
+    'Watch the schema and the files it imports, regenerating constraint code on changes'
+  )
   .option('-s, --schema <file>', 'Schema file path', 'convex/schema.ts')
   .option('-o, --output <dir>', 'Output directory', 'convex/_sql')
+  .option(
+    '-r, --runtime',
+    'Read constraints by loading the schema module instead of parsing it'
+  )
   .action(async (options) => {
     console.log(`🔍 Watching ${options.schema} for changes...`)
 
+    // Watch for changes, in the files the schema imports as well
+    const watcher = watch(options.schema, {
+      persistent: true,
+      ignoreInitial: true,
+    })
+
     // Generate initial code
     try {
-      await generateFromSchema(options.schema, options.output)
+      const files = await generateFromSchema(options.schema, options.output, {
+        runtime: options.runtime,
+      })
+      watcher.add(files)
       console.log('✅ Initial constraint code generated')
     } catch (error) {
       console.error('❌ Error generating initial constraint code:', error)
     }
 
-    // Watch for changes
-    const watcher = watch(options.schema, {
-      persistent: true,
-      ignoreInitial: true,
-    })
-
-    watcher.on('change', async () => {
-      console.log('📝 Schema file changed, regenerating...')
+    watcher.on('change', async (file) => {
+      console.log(`📝 ${relative(process.cwd(), file)} changed, regenerating...`)
       try {
-        await generateFromSchema(options.schema, options.output)
+        const files = await generateFromSchema(options.schema, options.output, {
+          runtime: options.runtime,
+        })
+        watcher.add(files)
         console.log('✅ Constraint code regenerated')
       } catch (error) {
         console.error('❌ Error regenerating constraint code:', error)
@@ -126,10 +147,49 @@ program
     }
   })
 
+program
+  .command('lint')
+  .description('Check schema constraints for problems, failing if any are found')
+  .option('-s, --schema <file>', 'Schema file path', 'convex/schema.ts')
+  .option(
+    '-r, --runtime',
+    'Read constraints by loading the schema module instead of parsing it'
+  )
+  .action(async (options) => {
+    try {
+      const schemaPath = resolve(options.schema)
+      const schema = options.runtime
+        ? await loadSchemaMetadata(schemaPath)
+        : parseSchemaFile(schemaPath)
+      const diagnostics = lintSchema(schema)
+
+      for (const { rule, message, location } of diagnostics) {
+        const position = location
+          ? `${relative(process.cwd(), location.file)}:${location.line}:${location.column}`
+          : options.schema
+        console.error(`${position} - ${message} (${rule})`)
+      }
+
+      if (diagnostics.length > 0) {
+        console.error(
+          `\n❌ Found ${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'}`
+        )
+        process.exit(1)
+      }
+
+      console.log('✅ No problems found')
+    } catch (error) {
+      console.error('❌ Schema lint failed:', error)
+      process.exit(1)
+    }
+  })
+
+// Returns the files the schema was read from
 async function generateFromSchema(
   schemaPath: string,
-  outputDir: string
-): Promise<void> {
+  outputDir: string,
+  options: { runtime?: boolean } = {}
+): Promise<string[]> {
   const resolvedSchemaPath = resolve(schemaPath)
   const resolvedOutputDir = resolve(outputDir)
 
@@ -137,14 +197,26 @@ async function generateFromSchema(
     throw new Error(`Schema file not found: ${resolvedSchemaPath}`)
   }
 
-  // Parse schema
-  const schema = parseSchemaFile(resolvedSchemaPath)
+  // Parse schema, or load it when constraints are built at runtime
+  const schema = options.runtime
+    ? await loadSchemaMetadata(resolvedSchemaPath)
+    : parseSchemaFile(resolvedSchemaPath)
+
+  // Write the bookkeeping tables first, so the schema can import them
+  writeTablesCode(schema, resolvedOutputDir)
 
   // Generate code
-  const code = generateConstraintCode(schema)
+  const code = generateConstraintCode(schema, {
+    outputDir: resolvedOutputDir,
+  })
 
   // Write generated code
   writeGeneratedCode(code, resolvedOutputDir)
+
+  // Leave out the generated files the schema imports, like _sql/tables.ts
+  return (schema.files ?? [resolvedSchemaPath]).filter((file) =>
+    relative(resolvedOutputDir, file).startsWith('..')
+  )
 }
 
 async function initProject(schemaPath: string): Promise<void> {
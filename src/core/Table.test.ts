@@ -0,0 +1,29 @@
+import { v } from 'convex/values'
+import { Table } from './Table'
+
+describe('Table', () => {
+  it('keeps fields in step with the validator', () => {
+    const users = Table('users', { email: v.string() })
+      .timestamps()
+      .audited()
+      .constraints((c) => [c.unique('email', { normalize: 'lowercase' })])
+
+    expect(users.fields).toBe(users.validator)
+    expect(Object.keys(users.fields.fields)).toEqual([
+      'email',
+      'createdAt',
+      'updatedAt',
+      'createdBy',
+      'updatedBy',
+      'email_normalized',
+    ])
+  })
+
+  it('types the fields added by timestamps() and audited()', () => {
+    const users = Table('users', { email: v.string() }).timestamps().audited()
+
+    const fields: { createdAt: unknown; updatedBy: unknown } = users.fields.fields
+    expect(fields.createdAt).toBeDefined()
+    expect(fields.updatedBy).toBeDefined()
+  })
+})
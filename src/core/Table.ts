@@ -1,4 +1,5 @@
 import {
+  Infer,
   ObjectType,
   v,
   VObject,
@@ -10,10 +11,35 @@ import type {
   UniqueConstraint,
   RelationConstraint,
   DefaultConstraint,
+  CheckConstraint,
+  ManyToManyConstraint,
+  PolymorphicConstraint,
+  SequenceConstraint,
   DeleteAction,
   TypeSafeConstraints,
   ExtractFieldPaths,
+  ConstrainMeta,
+  ExpressionMeta,
+  FieldType,
+  TableMetadata,
+  WithFields,
+  TimestampFields,
+  AuditFields,
 } from './types.js'
+import {
+  autoIndexName,
+  getAutoIndexes,
+  getSequenceIndexFields,
+  getUniqueIndexFields,
+  normalizedFieldName,
+} from './indexes.js'
+import {
+  MANAGED_FIELDS,
+  getFieldAtPath,
+  getFieldType,
+  getManagedFields,
+  isArrayField,
+} from './fields.js'
 import {
   Expand,
   GenericTableIndexes,
@@ -40,8 +66,15 @@ export function isValidator(v: any): v is GenericValidator {
  *   age: v.number()
  * }).constraints(c => [
  *   c.unique("email"), // Add unique constraint on email
+ *   c.unique(["orgId", "slug"]), // Slug only has to be unique within its org
  *   c.notNull("name"), // Name cannot be null
  *   c.default("age", 18), // Default age to 18
+ *   c.check("adult", (doc) => doc.age >= 18), // Row-level rule
+ *   c.sequence("number", { scope: "orgId" }), // Number users 1, 2, 3... within each org
+ *   c.manyToMany("tags", Tags, { through: UserTags }), // Link rows through a join table
+ *   c.polymorphic("pinnedId", [Posts, Files], { // Reference one of several tables
+ *     onDelete: { posts: "cascade", files: "setNull" }
+ *   }),
  *   c.relation("userId", Users, { // Add foreign key relation
  *     onDelete: "restrict"
  *   })
@@ -87,6 +120,14 @@ export function Table<
   }
 }
 
+function toExpressionMeta(value: unknown): ExpressionMeta {
+  return {
+    code:
+      typeof value === 'function' ? value.toString() : JSON.stringify(value),
+    imports: [],
+  }
+}
+
 /**
  * @internal
  */
@@ -143,9 +184,12 @@ export class TableDefinitionWithConstraints<
   // The type of documents stored in this table.
   validator: DocumentType
   private _constraints: Constraint[] = []
+  private _softDelete?: string
+  private _timestamps = false
+  private _audited = false
   constructor(
     public readonly name: TableName,
-    public readonly fields: DocumentType
+    fields: DocumentType
   ) {
     this.indexes = []
     this.searchIndexes = []
@@ -153,6 +197,14 @@ export class TableDefinitionWithConstraints<
     this.validator = fields
   }
 
+  /**
+   * The document validator, along with the fields added by .timestamps(), .audited()
+   * and normalized unique constraints
+   */
+  get fields(): DocumentType {
+    return this.validator
+  }
+
   /**
    * Add an index to the table.
    *
@@ -286,6 +338,82 @@ export class TableDefinitionWithConstraints<
     return this
   }
 
+  /**
+   * Add createdAt and updatedAt fields, each with an index. The wrapped insert sets
+   * both to the time of the write, replace and patch update updatedAt.
+   *
+   * @returns The table definition with the timestamp fields
+   */
+  timestamps(): TableDefinitionWithConstraints<
+    TableName,
+    WithFields<DocumentType, TimestampFields>,
+    Indexes,
+    SearchIndexes,
+    VectorIndexes
+  > {
+    if (!this._timestamps) {
+      this._timestamps = true
+      this.addManagedFields('timestamps')
+    }
+    return this.withFields<TimestampFields>()
+  }
+
+  /**
+   * Add createdBy and updatedBy fields, each with an index. The wrapped insert sets
+   * both to the tokenIdentifier of the user calling the mutation, replace and patch
+   * update updatedBy. They are left unset when nobody is signed in.
+   *
+   * @returns The table definition with the audit fields
+   */
+  audited(): TableDefinitionWithConstraints<
+    TableName,
+    WithFields<DocumentType, AuditFields>,
+    Indexes,
+    SearchIndexes,
+    VectorIndexes
+  > {
+    if (!this._audited) {
+      this._audited = true
+      this.addManagedFields('audited')
+    }
+    return this.withFields<AuditFields>()
+  }
+
+  /**
+   * Soft-delete records of the table instead of removing them.
+   *
+   * The wrapped delete sets the field to the time of the delete, on this record and on
+   * every record its relations cascade to. Generated queries and unique checks skip
+   * soft-deleted records.
+   *
+   * @param field - An optional number field, like `deletedAt: v.optional(v.number())`
+   * @returns The table definition in soft-delete mode
+   */
+  softDelete(
+    field: ExtractFieldPaths<DocumentType>
+  ): TableDefinitionWithConstraints<
+    TableName,
+    DocumentType,
+    Indexes,
+    SearchIndexes,
+    VectorIndexes
+  > {
+    const fieldType = this.getFieldTypes()[field]
+    if (!fieldType) {
+      throw new Error(
+        `Soft-delete field '${field}' does not exist in table '${this.name}'`
+      )
+    }
+    if (fieldType.kind !== 'float64' || !fieldType.optional) {
+      throw new Error(
+        `Soft-delete field '${this.name}.${field}' must be v.optional(v.number())`
+      )
+    }
+
+    this._softDelete = field
+    return this
+  }
+
   /**
    * Add constraints to the table
    * @param constraintsFn - A function that returns an array of constraints
@@ -293,7 +421,10 @@ export class TableDefinitionWithConstraints<
    */
   constraints(
     constraintsFn: (
-      c: TypeSafeConstraints<ExtractFieldPaths<DocumentType>>
+      c: TypeSafeConstraints<
+        ExtractFieldPaths<DocumentType>,
+        Infer<DocumentType>
+      >
     ) => Constraint[]
   ): TableDefinitionWithConstraints<
     TableName,
@@ -305,6 +436,8 @@ export class TableDefinitionWithConstraints<
     const constraintBuilders = this.createConstraintBuilders()
     this._constraints = constraintsFn(constraintBuilders)
     this.validateConstraints()
+    this.addJoinConstraints()
+    this.addNormalizedFields()
     return this.addAutoIndexes()
   }
 
@@ -333,17 +466,167 @@ export class TableDefinitionWithConstraints<
       documentType,
     }
   }
+  /**
+   * Get the constraints declared on this table
+   * @returns A copy of the table's constraints
+   */
+  getConstraints(): Constraint[] {
+    return [...this._constraints]
+  }
+
+  /**
+   * Describe the table and its constraints the same way the schema parser does,
+   * but from the live table object, so dynamically built constraints are included.
+   *
+   * Function values (defaults and check predicates) are captured from their source,
+   * so they must not reference variables from the module they are declared in.
+   *
+   * @returns The table metadata used for code generation
+   */
+  toMetadata(): TableMetadata {
+    const constraints = this._constraints.map((constraint): ConstrainMeta => {
+      switch (constraint.type) {
+        case 'relation':
+          // A table referenced before its declaration is still undefined here
+          if (!constraint.targetTable) {
+            throw new Error(
+              `Relation on ${this.name}.${constraint.field} has no target table. Make sure the target is declared before this table.`
+            )
+          }
+          return {
+            type: 'relation',
+            field: constraint.field,
+            targetTable: constraint.targetTable.name,
+            targetField: constraint.targetField,
+            onDelete: constraint.onDelete,
+            onUpdate: constraint.onUpdate,
+            name: constraint.name,
+            inverseName: constraint.inverseName,
+          }
+        case 'default':
+          return {
+            type: 'default',
+            field: constraint.field,
+            value: toExpressionMeta(constraint.value),
+          }
+        case 'check':
+          return {
+            type: 'check',
+            name: constraint.name,
+            predicate: toExpressionMeta(constraint.predicate),
+          }
+        case 'polymorphic': {
+          // A table referenced before its declaration is still undefined here
+          if (constraint.targetTables.some((table) => !table)) {
+            throw new Error(
+              `Polymorphic relation on ${this.name}.${constraint.field} is missing a target table. Make sure the targets are declared before this table.`
+            )
+          }
+          const targetTables = constraint.targetTables.map((table) => table.name)
+          const { onDelete } = constraint
+          return {
+            type: 'polymorphic',
+            field: constraint.field,
+            targetTables,
+            onDelete:
+              typeof onDelete === 'string'
+                ? Object.fromEntries(
+                    targetTables.map((name) => [name, onDelete])
+                  )
+                : { ...onDelete },
+          }
+        }
+        case 'manyToMany':
+          return {
+            type: 'manyToMany',
+            name: constraint.name,
+            targetTable: constraint.targetTable.name,
+            through: constraint.through.name,
+            fields: constraint.fields!,
+          }
+        case 'sequence':
+          return { ...constraint }
+        default: {
+          // A normalize function is captured from its source, like a default
+          const { normalize, ...unique } = constraint
+          if (!normalize) return unique
+          return {
+            ...unique,
+            normalize:
+              typeof normalize === 'function'
+                ? toExpressionMeta(normalize)
+                : normalize,
+          }
+        }
+      }
+    })
+
+    const fields = this.getFieldTypes()
+    const autoIndexes = getAutoIndexes(
+      constraints,
+      fields,
+      Object.keys(
+        getManagedFields({
+          timestamps: this._timestamps,
+          audited: this._audited,
+        })
+      )
+    )
+    const indexes = this.indexes
+      .filter((index) => !autoIndexes.includes(index.indexDescriptor))
+      .map((index) => ({
+        name: index.indexDescriptor,
+        fields: index.fields,
+      }))
+
+    return {
+      name: this.name,
+      fields,
+      constraints,
+      indexes,
+      autoIndexes,
+      ...(this._softDelete ? { softDelete: this._softDelete } : {}),
+      ...(this._timestamps ? { timestamps: true } : {}),
+      ...(this._audited ? { audited: true } : {}),
+    }
+  }
+
+  /**
+   * Describe each top-level field of the table
+   */
+  private getFieldTypes(): Record<string, FieldType> {
+    const fields: Record<string, FieldType> = {}
+    const validator = this.validator as any
+    for (const [field, fieldValidator] of Object.entries<GenericValidator>(
+      validator.fields ?? {}
+    )) {
+      fields[field] = getFieldType(fieldValidator)
+    }
+    return fields
+  }
+
   /**
    * Create type-safe constraint builders for this table
    */
   private createConstraintBuilders(): TypeSafeConstraints<
-    ExtractFieldPaths<DocumentType>
+    ExtractFieldPaths<DocumentType>,
+    Infer<DocumentType>
   > {
     return {
-      unique: (field: ExtractFieldPaths<DocumentType>): UniqueConstraint => ({
-        type: 'unique',
-        field: field as string,
-      }),
+      unique: (fields, options = {}): UniqueConstraint => {
+        const { where, scope, normalize } = options
+        return {
+          type: 'unique',
+          fields: (Array.isArray(fields) ? fields : [fields]) as string[],
+          ...(where && Object.keys(where).length > 0
+            ? { where: { ...where } as UniqueConstraint['where'] }
+            : {}),
+          ...(scope
+            ? { scope: (Array.isArray(scope) ? scope : [scope]) as string[] }
+            : {}),
+          ...(normalize ? { normalize } : {}),
+        }
+      },
 
       relation: <
         TargetTable extends TableDefinitionWithConstraints<
@@ -360,6 +643,8 @@ export class TableDefinitionWithConstraints<
           targetField?: ExtractFieldPaths<TargetTable['fields']>
           onDelete?: DeleteAction
           onUpdate?: DeleteAction
+          name?: string
+          inverseName?: string
         }
       ): RelationConstraint => ({
         type: 'relation',
@@ -368,6 +653,8 @@ export class TableDefinitionWithConstraints<
         targetField: options?.targetField,
         onDelete: options?.onDelete,
         onUpdate: options?.onUpdate,
+        name: options?.name,
+        inverseName: options?.inverseName,
       }),
 
       default: (
@@ -378,6 +665,55 @@ export class TableDefinitionWithConstraints<
         field: field as string,
         value,
       }),
+
+      polymorphic: (
+        field: ExtractFieldPaths<DocumentType>,
+        targetTables: TableDefinitionWithConstraints<any, any, any, any, any>[],
+        options?: {
+          onDelete?: DeleteAction | Partial<Record<string, DeleteAction>>
+        }
+      ): PolymorphicConstraint => ({
+        type: 'polymorphic',
+        field: field as string,
+        targetTables,
+        onDelete: options?.onDelete,
+      }),
+
+      manyToMany: (
+        name: string,
+        targetTable: TableDefinitionWithConstraints<any, any, any, any, any>,
+        options: {
+          through: TableDefinitionWithConstraints<any, any, any, any, any>
+          fields?: [string, string]
+        }
+      ): ManyToManyConstraint => ({
+        type: 'manyToMany',
+        name,
+        targetTable,
+        through: options.through,
+        fields: options.fields,
+      }),
+
+      check: (
+        name: string,
+        predicate: (doc: Infer<DocumentType>) => boolean
+      ): CheckConstraint<Infer<DocumentType>> => ({
+        type: 'check',
+        name,
+        predicate,
+      }),
+
+      sequence: (field, options = {}): SequenceConstraint => ({
+        type: 'sequence',
+        field: field as string,
+        ...(options.scope
+          ? {
+              scope: (Array.isArray(options.scope)
+                ? options.scope
+                : [options.scope]) as string[],
+            }
+          : {}),
+      }),
     }
   }
 
@@ -393,22 +729,39 @@ export class TableDefinitionWithConstraints<
   > {
     for (const constraint of this._constraints) {
       switch (constraint.type) {
-        case 'unique':
-          // Add unique index
-          this.index(`convex_sql_${constraint.field}`, [constraint.field])
+        case 'unique': {
+          // Add unique index, compound for multi-column, scoped or partial constraints
+          const fields = getUniqueIndexFields(constraint)
+          this.index(autoIndexName(fields), fields as [string])
           break
+        }
 
         case 'relation':
           if (constraint.targetField) {
             // Add index for foreign key on the target table if it is not using the _id field
             const targetTable = constraint.targetTable
-            targetTable.index(`convex_sql_${constraint.targetField}`, [
+            targetTable.index(autoIndexName([constraint.targetField]), [
               constraint.targetField,
             ])
           }
 
-          this.index(`convex_sql_${constraint.field}`, [constraint.field])
+          // Array foreign keys are looked up through convex_sql_refs instead
+          if (!isArrayField(this.getFieldTypes(), constraint.field)) {
+            this.index(autoIndexName([constraint.field]), [constraint.field])
+          }
+          break
+
+        case 'polymorphic':
+          // Every target finds its referencing records through the same index
+          this.index(autoIndexName([constraint.field]), [constraint.field])
           break
+
+        case 'sequence': {
+          // Keeps the assigned numbers unique within their scope
+          const fields = getSequenceIndexFields(constraint)
+          this.index(autoIndexName(fields), fields as [string])
+          break
+        }
         default:
           break
       }
@@ -417,15 +770,90 @@ export class TableDefinitionWithConstraints<
     return this
   }
 
+  /**
+   * Add the relations and unique key each many-to-many link needs to its join table.
+   * Both relations cascade, so deleting either side removes its join rows.
+   */
+  private addJoinConstraints(): void {
+    for (const constraint of this._constraints) {
+      if (constraint.type !== 'manyToMany') continue
+
+      const { targetTable, through } = constraint
+      // A table referenced before its declaration is still undefined here
+      if (!targetTable || !through) {
+        throw new Error(
+          `Many-to-many '${this.name}.${constraint.name}' has no target or join table. Make sure both are declared before this table.`
+        )
+      }
+
+      const fields = constraint.fields ?? [
+        through.getJoinField(this, constraint.name),
+        through.getJoinField(targetTable, constraint.name),
+      ]
+      constraint.fields = fields
+
+      fields.forEach((field, i) => {
+        if (
+          !through._constraints.some(
+            (c) => c.type === 'relation' && c.field === field
+          )
+        ) {
+          through._constraints.push({
+            type: 'relation',
+            field,
+            targetTable: i === 0 ? this : targetTable,
+            onDelete: 'cascade',
+          })
+        }
+      })
+
+      if (
+        !through._constraints.some(
+          (c) => c.type === 'unique' && c.fields.join() === fields.join()
+        )
+      ) {
+        through._constraints.push({ type: 'unique', fields: [...fields] })
+      }
+
+      through.validateConstraints()
+      through.addAutoIndexes()
+    }
+  }
+
+  /**
+   * Find the one field of this join table holding ids of the given table
+   */
+  private getJoinField(
+    table: TableDefinitionWithConstraints<any, any, any, any, any>,
+    link: string
+  ): string {
+    const validator = this.validator as any
+    const matches = Object.entries<GenericValidator>(
+      validator.fields ?? {}
+    ).filter(([, fieldValidator]) => {
+      const fieldType = getFieldType(fieldValidator)
+      return fieldType.kind === 'id' && fieldType.table === table.name
+    })
+
+    if (matches.length !== 1) {
+      throw new Error(
+        `Join table '${this.name}' of many-to-many '${link}' must have exactly one v.id('${table.name}') field, found ${matches.length}. ` +
+          `Pass the join fields explicitly with { fields: [sourceField, targetField] }.`
+      )
+    }
+    return matches[0][0]
+  }
+
   /**
    * Validate that constraints reference valid fields
    */
   private validateConstraints(): void {
     let fieldNames: string[] = []
 
-    if (isValidator(this.fields)) {
+    // The validator includes the fields added by .timestamps() and .audited()
+    if (isValidator(this.validator)) {
       // For validator objects, get fields from the type property
-      const validator = this.fields as any
+      const validator = this.validator as any
       if (validator.type && typeof validator.type === 'object') {
         fieldNames = Object.keys(validator.type)
       } else if (validator.fields) {
@@ -433,21 +861,155 @@ export class TableDefinitionWithConstraints<
       }
     } else {
       // For plain objects, get field names directly
-      fieldNames = Object.keys(this.fields)
+      fieldNames = Object.keys(this.validator)
+    }
+
+    const assertField = (field: string) => {
+      if (!fieldNames.includes(field)) {
+        throw new Error(
+          `Constraint field '${field}' does not exist in table '${this.name}'. ` +
+            `Available fields: ${fieldNames.join(', ')}`
+        )
+      }
     }
 
     for (const constraint of this._constraints) {
       switch (constraint.type) {
-        case 'unique':
+        case 'unique': {
+          if (constraint.fields.length === 0) {
+            throw new Error(
+              `Unique constraint on table '${this.name}' must have at least one field`
+            )
+          }
+          // Shadow fields are only kept for top-level fields
+          const nested = constraint.normalize
+            ? constraint.fields.find((field) => field.includes('.'))
+            : undefined
+          if (nested) {
+            throw new Error(
+              `Unique constraint on '${this.name}.${nested}' uses normalize, which nested fields don't support. Normalize a top-level field instead`
+            )
+          }
+          constraint.fields.forEach(assertField)
+          constraint.scope?.forEach(assertField)
+          Object.keys(constraint.where ?? {}).forEach(assertField)
+          if (constraint.normalize) {
+            this.validateNormalizedFields(constraint, fieldNames)
+          }
+          break
+        }
         case 'default':
+          assertField(constraint.field)
+          break
         case 'relation':
-          if (!fieldNames.includes(constraint.field)) {
+          assertField(constraint.field)
+          for (const action of ['onDelete', 'onUpdate'] as const) {
+            if (
+              constraint[action] === 'setDefault' &&
+              !this._constraints.some(
+                (c) => c.type === 'default' && c.field === constraint.field
+              )
+            ) {
+              throw new Error(
+                `Relation '${this.name}.${constraint.field}' uses ${action}: 'setDefault', ` +
+                  `but '${constraint.field}' has no default value`
+              )
+            }
+          }
+          if (
+            constraint.name &&
+            this._constraints.some(
+              (c) =>
+                c !== constraint &&
+                c.type === 'relation' &&
+                c.name === constraint.name
+            )
+          ) {
             throw new Error(
-              `Constraint field '${constraint.field}' does not exist in table '${this.name}'. ` +
-                `Available fields: ${fieldNames.join(', ')}`
+              `Relation name '${constraint.name}' is used more than once on table '${this.name}'`
+            )
+          }
+          break
+        case 'check':
+          if (!constraint.name) {
+            throw new Error(
+              `Check constraint on table '${this.name}' must have a name`
+            )
+          }
+          if (
+            this._constraints.some(
+              (c) =>
+                c !== constraint &&
+                c.type === 'check' &&
+                c.name === constraint.name
+            )
+          ) {
+            throw new Error(
+              `Check constraint '${constraint.name}' is defined more than once on table '${this.name}'`
+            )
+          }
+          break
+        case 'polymorphic': {
+          assertField(constraint.field)
+          if (constraint.targetTables.length === 0) {
+            throw new Error(
+              `Polymorphic relation '${this.name}.${constraint.field}' must have at least one target table`
+            )
+          }
+          const actions =
+            typeof constraint.onDelete === 'string'
+              ? [constraint.onDelete]
+              : Object.values(constraint.onDelete ?? {})
+          if (
+            actions.includes('setDefault') &&
+            !this._constraints.some(
+              (c) => c.type === 'default' && c.field === constraint.field
+            )
+          ) {
+            throw new Error(
+              `Polymorphic relation '${this.name}.${constraint.field}' uses onDelete: 'setDefault', ` +
+                `but '${constraint.field}' has no default value`
+            )
+          }
+          break
+        }
+        case 'manyToMany':
+          if (
+            this._constraints.some(
+              (c) =>
+                c !== constraint &&
+                c.type === 'manyToMany' &&
+                c.name === constraint.name
+            )
+          ) {
+            throw new Error(
+              `Many-to-many '${constraint.name}' is defined more than once on table '${this.name}'`
+            )
+          }
+          break
+        case 'sequence':
+          assertField(constraint.field)
+          constraint.scope?.forEach(assertField)
+          if (
+            getFieldAtPath(this.getFieldTypes(), constraint.field)?.kind !==
+            'float64'
+          ) {
+            throw new Error(
+              `Sequence field '${this.name}.${constraint.field}' must be a v.number() field`
+            )
+          }
+          if (
+            this._constraints.some(
+              (c) =>
+                c !== constraint &&
+                c.type === 'sequence' &&
+                c.field === constraint.field
+            )
+          ) {
+            throw new Error(
+              `Sequence on '${this.name}.${constraint.field}' is defined more than once`
             )
           }
-
           break
         default:
           break
@@ -455,6 +1017,108 @@ export class TableDefinitionWithConstraints<
     }
   }
 
+  /**
+   * Check that the fields of a normalized unique constraint are strings, and
+   * that their shadow fields are free and normalized one way only
+   */
+  private validateNormalizedFields(
+    constraint: UniqueConstraint,
+    fieldNames: string[]
+  ): void {
+    const fields = this.getFieldTypes()
+
+    for (const field of constraint.fields) {
+      if (getFieldAtPath(fields, field)?.kind !== 'string') {
+        throw new Error(
+          `Unique constraint on '${this.name}.${field}' uses normalize, but '${field}' is not a string field`
+        )
+      }
+
+      const shadowField = normalizedFieldName(field)
+      if (fieldNames.includes(shadowField)) {
+        throw new Error(
+          `Unique constraint on '${this.name}.${field}' uses normalize, which needs the field name '${shadowField}'. Rename that field.`
+        )
+      }
+
+      const conflicting = this._constraints.find(
+        (c) =>
+          c.type === 'unique' &&
+          c.normalize &&
+          c.normalize !== constraint.normalize &&
+          c.fields.includes(field)
+      )
+      if (conflicting) {
+        throw new Error(
+          `Field '${this.name}.${field}' is normalized differently by two unique constraints`
+        )
+      }
+    }
+  }
+
+  // The table typed with the fields just added to its validator
+  private withFields<Fields extends Record<string, GenericValidator>>(): TableDefinitionWithConstraints<
+    TableName,
+    WithFields<DocumentType, Fields>,
+    Indexes,
+    SearchIndexes,
+    VectorIndexes
+  > {
+    return this as unknown as TableDefinitionWithConstraints<
+      TableName,
+      WithFields<DocumentType, Fields>,
+      Indexes,
+      SearchIndexes,
+      VectorIndexes
+    >
+  }
+
+  /**
+   * Add the fields of .timestamps() or .audited() to the validator, each with an index
+   */
+  private addManagedFields(option: keyof typeof MANAGED_FIELDS): void {
+    const validator = this.validator as any
+    const added: Record<string, GenericValidator> = {}
+
+    for (const [field, kind] of Object.entries(MANAGED_FIELDS[option])) {
+      if (validator.fields?.[field]) {
+        throw new Error(
+          `Table '${this.name}' already has a '${field}' field, which .${option}() adds. Remove it from the table.`
+        )
+      }
+      added[field] = v.optional(kind === 'float64' ? v.number() : v.string())
+    }
+
+    this.validator = v.object({
+      ...validator.fields,
+      ...added,
+    }) as unknown as DocumentType
+    for (const field of Object.keys(added)) {
+      this.index(autoIndexName([field]), [field] as any)
+    }
+  }
+
+  /**
+   * Add the shadow field of every normalized unique field to the validator. The
+   * shadow fields are optional, as records written around the wrapper lack them.
+   */
+  private addNormalizedFields(): void {
+    const shadowFields: Record<string, GenericValidator> = {}
+    for (const constraint of this._constraints) {
+      if (constraint.type !== 'unique' || !constraint.normalize) continue
+      for (const field of constraint.fields) {
+        shadowFields[normalizedFieldName(field)] = v.optional(v.string())
+      }
+    }
+    if (Object.keys(shadowFields).length === 0) return
+
+    const validator = this.validator as any
+    this.validator = v.object({
+      ...validator.fields,
+      ...shadowFields,
+    }) as unknown as DocumentType
+  }
+
   toConvexTable(): TableDefinition<
     DocumentType,
     Indexes,
@@ -0,0 +1,36 @@
+import { ConvexError } from 'convex/values'
+import { isConvexSqlError } from './errors'
+
+const violation = {
+  kind: 'unique',
+  message: 'Unique constraint violation',
+  table: 'users',
+  field: 'email',
+  value: 'a@x.com',
+}
+
+// A ConvexError from another copy of convex/values, like the CJS build next to the ESM one
+class OtherConvexError extends Error {
+  name = 'ConvexError'
+  constructor(public data: unknown) {
+    super('ConvexError')
+    Object.assign(this, { [Symbol.for('ConvexError')]: true })
+  }
+}
+
+describe('isConvexSqlError', () => {
+  it('recognizes constraint violations', () => {
+    expect(isConvexSqlError(new ConvexError(violation))).toBe(true)
+  })
+
+  it('recognizes violations thrown with another ConvexError class', () => {
+    expect(isConvexSqlError(new OtherConvexError(violation))).toBe(true)
+  })
+
+  it('rejects other errors', () => {
+    expect(isConvexSqlError(new Error('boom'))).toBe(false)
+    expect(isConvexSqlError(new ConvexError('boom'))).toBe(false)
+    expect(isConvexSqlError(new ConvexError({ kind: 'other', message: 'x' }))).toBe(false)
+    expect(isConvexSqlError(violation)).toBe(false)
+  })
+})
@@ -0,0 +1,49 @@
+import type { ConvexError } from 'convex/values'
+import type { ConvexSqlError } from './types.js'
+
+const ERROR_KINDS: ReadonlyArray<ConvexSqlError['kind']> = [
+  'unique',
+  'foreignKey',
+  'restrict',
+  'check',
+  'notFound',
+]
+
+/**
+ * Check whether an error is a constraint violation raised by the generated runtime.
+ * Works on the server and on the client, where the ConvexError is rethrown by the query or mutation.
+ * ConvexError is recognized by Convex's marker rather than instanceof, since a bundle can hold
+ * both the ESM and CJS builds of convex/values, each with its own ConvexError class.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await createUser({ email })
+ * } catch (error) {
+ *   if (isConvexSqlError(error) && error.data.kind === 'unique') {
+ *     setEmailError(`${error.data.value} is already taken`)
+ *   }
+ * }
+ * ```
+ */
+export function isConvexSqlError(
+  error: unknown
+): error is ConvexError<ConvexSqlError> {
+  if (
+    !(error instanceof Error) ||
+    !(
+      (error as any)[Symbol.for('ConvexError')] === true ||
+      error.name === 'ConvexError'
+    )
+  ) {
+    return false
+  }
+
+  const data: unknown = (error as any).data
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    ERROR_KINDS.includes((data as ConvexSqlError).kind) &&
+    typeof (data as ConvexSqlError).message === 'string'
+  )
+}
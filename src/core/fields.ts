@@ -0,0 +1,133 @@
+import type { GenericValidator } from 'convex/values'
+import type { FieldType } from './types.js'
+
+/**
+ * Describe a Convex validator as a FieldType
+ *
+ * @example
+ * ```ts
+ * getFieldType(v.optional(v.id('users')))
+ * // { kind: 'id', table: 'users', optional: true }
+ * ```
+ */
+export function getFieldType(validator: GenericValidator): FieldType {
+  const optional = validator.isOptional === 'optional'
+
+  switch (validator.kind) {
+    case 'id':
+      return { kind: 'id', table: validator.tableName, optional }
+    case 'literal':
+      // bigint literals have no JSON form
+      if (typeof validator.value === 'bigint') {
+        return {
+          kind: 'unknown',
+          source: `v.literal(${validator.value}n)`,
+          optional,
+        }
+      }
+      return { kind: 'literal', value: validator.value, optional }
+    case 'array':
+      return {
+        kind: 'array',
+        element: getFieldType(validator.element),
+        optional,
+      }
+    case 'object': {
+      const fields: Record<string, FieldType> = {}
+      for (const [name, field] of Object.entries(validator.fields)) {
+        fields[name] = getFieldType(field as GenericValidator)
+      }
+      return { kind: 'object', fields, optional }
+    }
+    case 'record':
+      return {
+        kind: 'record',
+        key: getFieldType(validator.key),
+        value: getFieldType(validator.value),
+        optional,
+      }
+    case 'union':
+      return {
+        kind: 'union',
+        members: validator.members.map((member: GenericValidator) =>
+          getFieldType(member)
+        ),
+        optional,
+      }
+    default:
+      return { kind: validator.kind, optional }
+  }
+}
+
+/**
+ * Fields added by .timestamps() and .audited(). They are optional, so records
+ * written before the option was added, or around the wrapper, stay valid.
+ */
+export const MANAGED_FIELDS = {
+  timestamps: { createdAt: 'float64', updatedAt: 'float64' },
+  audited: { createdBy: 'string', updatedBy: 'string' },
+} as const
+
+/**
+ * Get the fields a table's .timestamps() and .audited() options add
+ */
+export function getManagedFields(options: {
+  timestamps?: boolean
+  audited?: boolean
+}): Record<string, FieldType> {
+  const fields: Record<string, FieldType> = {}
+  for (const option of ['timestamps', 'audited'] as const) {
+    if (!options[option]) continue
+    for (const [field, kind] of Object.entries(MANAGED_FIELDS[option])) {
+      fields[field] = { kind, optional: true }
+    }
+  }
+  return fields
+}
+
+/**
+ * Look up a field by its path, descending into object fields for dotted paths
+ */
+export function getFieldAtPath(
+  fields: Record<string, FieldType>,
+  path: string
+): FieldType | undefined {
+  const [head, ...rest] = path.split('.')
+  const field = fields[head]
+
+  if (!field || rest.length === 0) return field
+  if (field.kind !== 'object') return undefined
+
+  return getFieldAtPath(field.fields, rest.join('.'))
+}
+
+/**
+ * Whether a field holds an array, like the foreign keys of v.array(v.id('users'))
+ */
+export function isArrayField(
+  fields: Record<string, FieldType>,
+  path: string
+): boolean {
+  return getFieldAtPath(fields, path)?.kind === 'array'
+}
+
+/**
+ * Whether a field accepts null, like v.union(v.id('users'), v.null())
+ */
+export function isNullable(field: FieldType): boolean {
+  if (field.kind === 'null') return true
+  return field.kind === 'union' && field.members.some(isNullable)
+}
+
+/**
+ * Whether two fields hold the same type of value, ignoring whether they are optional.
+ * Fields the parser couldn't read are assumed to match.
+ */
+export function isSameFieldType(a: FieldType, b: FieldType): boolean {
+  if (a.kind === 'unknown' || b.kind === 'unknown') return true
+
+  return (
+    JSON.stringify({ ...a, optional: false }) ===
+    JSON.stringify({ ...b, optional: false })
+  )
+}
@@ -0,0 +1,107 @@
+import type {
+  ConstrainMeta,
+  FieldType,
+  SequenceConstraint,
+  UniqueConstraint,
+  UniqueConstraintMeta,
+} from './types.js'
+import { isArrayField } from './fields.js'
+
+/**
+ * Prefix shared by every index convex-sql adds to a table
+ */
+export const AUTO_INDEX_PREFIX = 'convex_sql_'
+
+/**
+ * Get the name of the auto-generated index covering the given fields
+ *
+ * @example
+ * ```ts
+ * autoIndexName(['email']) // 'convex_sql_email'
+ * autoIndexName(['orgId', 'slug']) // 'convex_sql_orgId_slug'
+ * ```
+ */
+export function autoIndexName(fields: string[]): string {
+  return `${AUTO_INDEX_PREFIX}${fields.join('_')}`
+}
+
+/**
+ * Get the name of the shadow field holding the normalized value of a field
+ *
+ * @example
+ * ```ts
+ * normalizedFieldName('email') // 'email_normalized'
+ * normalizedFieldName('username') // 'username_normalized'
+ * ```
+ */
+export function normalizedFieldName(field: string): string {
+  return `${field.split('.').join('_')}_normalized`
+}
+
+/**
+ * Get the fields a unique constraint is looked up by: its scope and fields,
+ * then the fields of its where filter. Normalized fields are looked up by their shadow field.
+ *
+ * @example
+ * ```ts
+ * getUniqueIndexFields({ type: 'unique', fields: ['email'], where: { status: 'active' } })
+ * // ['email', 'status']
+ * ```
+ */
+export function getUniqueIndexFields(
+  constraint: UniqueConstraint | UniqueConstraintMeta
+): string[] {
+  const keyFields = constraint.normalize
+    ? constraint.fields.map(normalizedFieldName)
+    : constraint.fields
+  const fields = [...(constraint.scope ?? []), ...keyFields]
+  const whereFields = Object.keys(constraint.where ?? {})
+  return [...new Set([...fields, ...whereFields])]
+}
+
+/**
+ * Get the fields the values of a sequence are kept unique by: its scope, then the field
+ *
+ * @example
+ * ```ts
+ * getSequenceIndexFields({ type: 'sequence', field: 'number', scope: ['projectId'] })
+ * // ['projectId', 'number']
+ * ```
+ */
+export function getSequenceIndexFields(constraint: SequenceConstraint): string[] {
+  return [...(constraint.scope ?? []), constraint.field]
+}
+
+/**
+ * Get the names of the indexes auto-created for a table's unique, relation and sequence constraints,
+ * and for the fields added by .timestamps() and .audited().
+ * Relations on array fields have none, their references are looked up in convex_sql_refs.
+ */
+export function getAutoIndexes(
+  constraints: ConstrainMeta[],
+  fields: Record<string, FieldType> = {},
+  managedFields: string[] = []
+): string[] {
+  const autoIndexes = new Set<string>()
+
+  for (const constraint of constraints) {
+    if (constraint.type === 'unique') {
+      autoIndexes.add(autoIndexName(getUniqueIndexFields(constraint)))
+    } else if (
+      constraint.type === 'relation' &&
+      !isArrayField(fields, constraint.field)
+    ) {
+      autoIndexes.add(autoIndexName([constraint.field]))
+    } else if (constraint.type === 'polymorphic') {
+      autoIndexes.add(autoIndexName([constraint.field]))
+    } else if (constraint.type === 'sequence') {
+      autoIndexes.add(autoIndexName(getSequenceIndexFields(constraint)))
+    }
+  }
+
+  for (const field of managedFields) {
+    autoIndexes.add(autoIndexName([field]))
+  }
+
+  return Array.from(autoIndexes)
+}
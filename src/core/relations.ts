@@ -0,0 +1,33 @@
+import type {
+  ConstrainMeta,
+  RelationConstraintMeta,
+  SourceLocation,
+} from './types.js'
+
+// A relation to a single table, as declared or split off a polymorphic relation
+export type TargetRelation = RelationConstraintMeta & {
+  polymorphic?: boolean
+  location?: SourceLocation
+}
+
+/**
+ * Get a table's relations with one entry per target table. Polymorphic
+ * relations are split up, so each target's onDelete applies on its own.
+ */
+export function getTargetRelations(
+  constraints: ConstrainMeta[]
+): TargetRelation[] {
+  return constraints.flatMap((constraint): TargetRelation[] => {
+    if (constraint.type === 'relation') return [constraint]
+    if (constraint.type !== 'polymorphic') return []
+
+    return constraint.targetTables.map((targetTable) => ({
+      type: 'relation',
+      field: constraint.field,
+      targetTable,
+      onDelete: constraint.onDelete[targetTable],
+      polymorphic: true,
+      location: constraint.location,
+    }))
+  })
+}
@@ -1,5 +1,13 @@
-import type { Validator } from 'convex/values'
-import { SystemFields } from 'convex/server'
+import type {
+  GenericValidator,
+  ObjectType,
+  Validator,
+  Value,
+  VFloat64,
+  VObject,
+  VString,
+} from 'convex/values'
+import { Expand, SystemFields } from 'convex/server'
 import { TableDefinitionWithConstraints } from './Table'
 
 export type ExtractFieldPaths<T extends Validator<any, any, any>> =
@@ -8,13 +16,51 @@ export type ExtractFieldPaths<T extends Validator<any, any, any>> =
   // automatically.
   T['fieldPaths'] | keyof SystemFields
 
+// A document validator with more fields, as added by .timestamps() and .audited()
+export type WithFields<
+  DocumentType extends Validator<any, any, any>,
+  Fields extends Record<string, GenericValidator>
+> =
+  DocumentType extends VObject<infer Type, infer DocumentFields, infer IsOptional>
+    ? VObject<
+        Expand<Type & ObjectType<Fields>>,
+        Expand<DocumentFields & Fields>,
+        IsOptional
+      >
+    : DocumentType
+
+export type TimestampFields = {
+  createdAt: VFloat64<number | undefined, 'optional'>
+  updatedAt: VFloat64<number | undefined, 'optional'>
+}
+
+export type AuditFields = {
+  createdBy: VString<string | undefined, 'optional'>
+  updatedBy: VString<string | undefined, 'optional'>
+}
+
 // Base constraint types
 export type DeleteAction = 'cascade' | 'restrict' | 'setNull' | 'setDefault'
 
 // Individual constraint definitions
+// How string fields are normalized before a unique check, e.g. 'lowercase' for emails
+export type UniqueNormalize = 'lowercase' | 'trim' | ((value: string) => string)
+
 export interface UniqueConstraint {
   type: 'unique'
-  field: string
+  // A single field, or every column of a composite (multi-column) unique key
+  fields: string[]
+  // Only records with these values are checked, like a partial unique index in SQL
+  where?: Record<string, string | number | boolean>
+  // Fields the key only has to be unique within, e.g. one primary address per user
+  scope?: string[]
+  // Compare normalized values of the fields, kept in a shadow field next to each
+  normalize?: UniqueNormalize
+}
+
+// Separate type for unique constraint meta since parsing only has a normalize function's source code
+export type UniqueConstraintMeta = Omit<UniqueConstraint, 'normalize'> & {
+  normalize?: 'lowercase' | 'trim' | ExpressionMeta
 }
 
 export interface RelationConstraint {
@@ -24,6 +70,8 @@ export interface RelationConstraint {
   targetField?: string
   onDelete?: DeleteAction
   onUpdate?: DeleteAction
+  name?: string // Name of the referenced row, e.g. 'author' for authorId
+  inverseName?: string // Name of the referencing rows on the target, e.g. 'authoredDocuments'
 }
 
 // Separate type for relation constraint meta for parsing since the parsing cant actually have the object
@@ -34,6 +82,44 @@ export interface RelationConstraintMeta<TargetTable extends string = string> {
   targetField?: string
   onDelete?: DeleteAction
   onUpdate?: DeleteAction
+  name?: string
+  inverseName?: string
+}
+
+// Foreign key that can reference one of several tables, e.g. v.union(v.id('posts'), v.id('tasks'))
+export interface PolymorphicConstraint {
+  type: 'polymorphic'
+  field: string
+  targetTables: TableDefinitionWithConstraints<any, any, any, any, any>[]
+  // One action for every target, or one per target table name (restrict when left out)
+  onDelete?: DeleteAction | Partial<Record<string, DeleteAction>>
+}
+
+// Separate type for polymorphic constraint meta, with onDelete given per target table name
+export interface PolymorphicConstraintMeta {
+  type: 'polymorphic'
+  field: string
+  targetTables: string[]
+  onDelete: Partial<Record<string, DeleteAction>>
+}
+
+// Many-to-many link through a join table, e.g. documents <-> tags through documentTags
+export interface ManyToManyConstraint {
+  type: 'manyToMany'
+  name: string // Name of the linked rows, e.g. 'tags'
+  targetTable: TableDefinitionWithConstraints<any, any, any, any, any>
+  through: TableDefinitionWithConstraints<any, any, any, any, any>
+  // Join table fields referencing this table and the target, inferred from their v.id() validators when omitted
+  fields?: [string, string]
+}
+
+// Separate type for many-to-many constraint meta, with the join fields resolved
+export interface ManyToManyConstraintMeta {
+  type: 'manyToMany'
+  name: string
+  targetTable: string
+  through: string
+  fields: [string, string]
 }
 
 export type Default = string | number | boolean
@@ -45,19 +131,91 @@ export interface DefaultConstraint {
   value: DefaultValue
 }
 
+// A binding a parsed expression needs imported to be emitted into generated code
+export interface ExpressionImport {
+  name: string // The local identifier used in the expression
+  importedName: string // The exported name, 'default' or '*' for a namespace import
+  from: string // A package specifier or an absolute module path (without extension)
+}
+
+// Source code of an expression lifted out of the schema, e.g. `() => Date.now()`
+export interface ExpressionMeta {
+  code: string
+  imports: ExpressionImport[]
+}
+
+// Separate type for default constraint meta since parsing only has the value's source code
+export interface DefaultConstraintMeta {
+  type: 'default'
+  field: string
+  value: ExpressionMeta
+}
+
+// Row-level rule, e.g. c.check('price_positive', (doc) => doc.price >= 0)
+export interface CheckConstraint<Document = any> {
+  type: 'check'
+  name: string
+  predicate: (doc: Document) => boolean
+}
+
+// Separate type for check constraint meta since parsing only has the predicate's source code
+export interface CheckConstraintMeta {
+  type: 'check'
+  name: string
+  predicate: ExpressionMeta
+}
+
+// Number assigned on insert from a counter, e.g. issue numbers counted per project
+export interface SequenceConstraint {
+  type: 'sequence'
+  field: string
+  // Fields each value of which has its own counter, e.g. ['projectId']
+  scope?: string[]
+}
+
 export type Constraint =
   | UniqueConstraint
   | RelationConstraint
   | DefaultConstraint
+  | CheckConstraint
+  | ManyToManyConstraint
+  | PolymorphicConstraint
+  | SequenceConstraint
 
-export type ConstrainMeta =
+export type ConstrainMeta = (
   | RelationConstraintMeta
-  | UniqueConstraint
-  | DefaultConstraint
+  | UniqueConstraintMeta
+  | DefaultConstraintMeta
+  | CheckConstraintMeta
+  | ManyToManyConstraintMeta
+  | PolymorphicConstraintMeta
+  | SequenceConstraint
+) & {
+  location?: SourceLocation // Where the constraint is declared, when parsed from source
+}
+
+// A position in the schema source, 1-based
+export interface SourceLocation {
+  file: string
+  line: number
+  column: number
+}
 
 // Type-safe constraint builders interface
-export interface TypeSafeConstraints<FieldPaths extends string> {
-  unique: (field: FieldPaths) => UniqueConstraint
+export interface TypeSafeConstraints<
+  FieldPaths extends string,
+  Document = any
+> {
+  unique: (
+    fields: FieldPaths | [FieldPaths, ...FieldPaths[]],
+    options?: {
+      where?: {
+        [K in keyof Document]?: Extract<Document[K], string | number | boolean>
+      }
+      scope?: FieldPaths | [FieldPaths, ...FieldPaths[]]
+      normalize?: UniqueNormalize
+    }
+  ) => UniqueConstraint
   relation: <
     TargetTable extends TableDefinitionWithConstraints<any, any, any, any, any>
   >(
@@ -67,9 +225,74 @@ export interface TypeSafeConstraints<FieldPaths extends string> {
       targetField?: ExtractFieldPaths<TargetTable['fields']>
       onDelete?: DeleteAction
       onUpdate?: DeleteAction
+      name?: string
+      inverseName?: string
     }
   ) => RelationConstraint
   default: (field: FieldPaths, value: DefaultValue) => DefaultConstraint
+  polymorphic: <
+    TargetTables extends TableDefinitionWithConstraints<any, any, any, any, any>[]
+  >(
+    field: FieldPaths,
+    targetTables: [...TargetTables],
+    options?: {
+      onDelete?:
+        | DeleteAction
+        | Partial<Record<TargetTables[number]['name'], DeleteAction>>
+    }
+  ) => PolymorphicConstraint
+  manyToMany: <
+    TargetTable extends TableDefinitionWithConstraints<any, any, any, any, any>,
+    ThroughTable extends TableDefinitionWithConstraints<any, any, any, any, any>
+  >(
+    name: string,
+    targetTable: TargetTable,
+    options: {
+      through: ThroughTable
+      fields?: [
+        ExtractFieldPaths<ThroughTable['fields']>,
+        ExtractFieldPaths<ThroughTable['fields']>
+      ]
+    }
+  ) => ManyToManyConstraint
+  check: (
+    name: string,
+    predicate: (doc: Document) => boolean
+  ) => CheckConstraint<Document>
+  sequence: (
+    field: FieldPaths,
+    options?: { scope?: FieldPaths | [FieldPaths, ...FieldPaths[]] }
+  ) => SequenceConstraint
+}
+
+// Structured description of a field's validator, using the validator kinds.
+// e.g. v.optional(v.id('users')) is { kind: 'id', table: 'users', optional: true }
+export type FieldType = { optional: boolean } & (
+  | { kind: 'id'; table: string }
+  | {
+      kind:
+        | 'string'
+        | 'float64'
+        | 'int64'
+        | 'boolean'
+        | 'bytes'
+        | 'null'
+        | 'any'
+    }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'array'; element: FieldType }
+  | { kind: 'object'; fields: Record<string, FieldType> }
+  | { kind: 'record'; key: FieldType; value: FieldType }
+  | { kind: 'union'; members: FieldType[] }
+  // A validator the schema parser couldn't read, such as a helper call
+  | { kind: 'unknown'; source: string }
+)
+
+// An index declared with .index() on a table
+export interface IndexMetadata {
+  name: string
+  fields: string[]
+  location?: SourceLocation
 }
 
 // Metadata extracted from schema parsing
@@ -77,12 +300,71 @@ export interface TableMetadata {
   name: string // The actual table name from Table('name', ...)
   variableName?: string // The variable name (e.g., 'Users' from const Users = Table(...))
   exportKey?: string // The key used in defineSchema export (e.g., 'users' from { users: Users.toConvexTable() })
-  fields: Record<string, any>
+  fields: Record<string, FieldType>
   constraints: ConstrainMeta[]
-  autoIndexes: string[] // Fields that get auto-indexes from relations
+  indexes: IndexMetadata[] // Indexes declared with .index(), not including auto-indexes
+  autoIndexes: string[] // Names of the indexes auto-created for unique, relation and sequence constraints
+  softDelete?: string // The field holding the deletion time, when declared with .softDelete()
+  timestamps?: boolean // Whether .timestamps() added createdAt and updatedAt
+  audited?: boolean // Whether .audited() added createdBy and updatedBy
+  location?: SourceLocation // Where the table is declared, when parsed from source
 }
 
 export interface SchemaMetadata {
   tables: Record<string, TableMetadata>
   relations: RelationConstraintMeta[]
+  files?: string[] // The schema file and the project files it imports, to watch for changes
+  schemaTables?: string[] // Every table passed to defineSchema(), when they could all be found
+}
+
+// Structured errors raised by the generated runtime, carried as ConvexError data.
+// These are type aliases rather than interfaces so they are valid Convex values.
+export type UniqueViolationError = {
+  kind: 'unique'
+  message: string
+  table: string
+  // A single field, or every column of a composite unique key
+  field: string | string[]
+  value: Value | Value[]
+}
+
+export type ForeignKeyViolationError = {
+  kind: 'foreignKey'
+  message: string
+  table: string
+  field: string
+  value: Value
+  relatedTable: string
+  relatedField?: string // The targetField, when the relation does not use _id
+}
+
+export type RestrictViolationError = {
+  kind: 'restrict'
+  message: string
+  table: string // The table of the record being deleted or updated
+  relatedTable: string // The table whose records still reference it
+  field: string // The referencing field on the related table
+  value: Value // The id or targetField value being referenced
+  count: number
+}
+
+export type CheckViolationError = {
+  kind: 'check'
+  message: string
+  table: string
+  constraint: string // The name given to c.check()
+}
+
+export type NotFoundError = {
+  kind: 'notFound'
+  message: string
+  table: string
+  value: Value // The id that could not be found
 }
+
+export type ConvexSqlError =
+  | UniqueViolationError
+  | ForeignKeyViolationError
+  | RestrictViolationError
+  | CheckViolationError
+  | NotFoundError
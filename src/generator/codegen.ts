@@ -1,361 +1,2837 @@
 import { writeFileSync, existsSync, mkdirSync } from 'fs'
-import { join } from 'path'
+import { join, isAbsolute, relative, sep } from 'path'
 import type {
   SchemaMetadata,
   TableMetadata,
-  RelationConstraint,
-  UniqueConstraint,
+  UniqueConstraintMeta,
+  DefaultConstraintMeta,
+  CheckConstraintMeta,
+  ConstrainMeta,
+  ExpressionImport,
+  ExpressionMeta,
+  FieldType,
+  RelationConstraintMeta,
+  ManyToManyConstraintMeta,
+  PolymorphicConstraintMeta,
+  SequenceConstraint,
 } from '../core/types.js'
+import {
+  autoIndexName,
+  getSequenceIndexFields,
+  getUniqueIndexFields,
+  normalizedFieldName,
+} from '../core/indexes.js'
+import { getTargetRelations } from '../core/relations.js'
+import {
+  getFieldAtPath,
+  isArrayField,
+  isNullable,
+  isSameFieldType,
+} from '../core/fields.js'
+
+export interface CodeGeneratorOptions {
+  // Directory the generated code is written to, used to resolve imports from the schema
+  outputDir?: string
+}
+
+// Table the generated code keeps one row per id held in an array foreign key in
+export const REFS_TABLE = 'convex_sql_refs'
+
+// Table the generated code keeps the last number of each sequence in
+export const SEQUENCES_TABLE = 'convex_sql_sequences'
+
+// Definitions of the tables convex-sql keeps its bookkeeping in
+const BOOKKEEPING_TABLES: Record<string, string> = {
+  [REFS_TABLE]: `
+  // One row per id held in an array foreign key, so referencing records can be found by id
+  ${REFS_TABLE}: defineTable({
+    table: v.string(),
+    field: v.string(),
+    docId: v.string(),
+    targetId: v.string(),
+  })
+    .index('by_target', ['targetId', 'table', 'field'])
+    .index('by_doc', ['docId', 'field']),`,
+
+  [SEQUENCES_TABLE]: `
+  // The last number assigned by each sequence, one row per value of its scope
+  ${SEQUENCES_TABLE}: defineTable({
+    table: v.string(),
+    field: v.string(),
+    scope: v.string(),
+    value: v.number(),
+  }).index('by_sequence', ['table', 'field', 'scope']),`,
+}
+
+// Code of the generated tables.ts, defining the given bookkeeping tables
+export function getTablesCode(tables: string[]): string {
+  return `import { defineTable } from 'convex/server'
+import { v } from 'convex/values'
+
+/**
+ * Tables convex-sql keeps its bookkeeping in. Spread them into defineSchema():
+ *
+ * defineSchema({ ...convexSqlTables, users: Users.toConvexTable() })
+ */
+export const convexSqlTables = {${tables.map((table) => BOOKKEEPING_TABLES[table]).join('\n')}
+}
+`
+}
+
+// The bookkeeping tables the generated code needs: the refs table for relations
+// on array fields, the sequences table for sequences
+function getBookkeepingTables(schema: SchemaMetadata): string[] {
+  const tables = Object.values(schema.tables).filter((table) => table.exportKey)
+  const needed: string[] = []
+
+  if (
+    tables.some((table) =>
+      table.constraints.some(
+        (c) => c.type === 'relation' && isArrayField(table.fields, c.field)
+      )
+    )
+  ) {
+    needed.push(REFS_TABLE)
+  }
+  if (
+    tables.some((table) =>
+      table.constraints.some((c) => c.type === 'sequence')
+    )
+  ) {
+    needed.push(SEQUENCES_TABLE)
+  }
+  return needed
+}
+
+function isExpressionMeta(value: unknown): value is ExpressionMeta {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ExpressionMeta).code === 'string' &&
+    Array.isArray((value as ExpressionMeta).imports)
+  )
+}
+
+// Expressions lifted out of the schema that a constraint carries into the generated code
+export function getConstraintExpressions(constraint: ConstrainMeta): ExpressionMeta[] {
+  switch (constraint.type) {
+    case 'default':
+      return [constraint.value]
+    case 'check':
+      return [constraint.predicate]
+    case 'unique':
+      return isExpressionMeta(constraint.normalize) ? [constraint.normalize] : []
+    default:
+      return []
+  }
+}
+
+// Whether a foreign key field holds ids of one of the given tables, optionally alongside null
+function holdsIdsOf(field: FieldType, tables: string[]): boolean {
+  if (field.kind === 'id') return tables.includes(field.table)
+  if (field.kind === 'union') {
+    return field.members.every(
+      (member) => member.kind === 'null' || holdsIdsOf(member, tables)
+    )
+  }
+  return false
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+// Name the relation a foreign key loads after the field, e.g. 'userId' -> 'user',
+// or 'assigneeIds' -> 'assignees' for an array of ids
+function getRelationName(field: string, array = false): string {
+  const fieldName = field.split('.').pop()!
+  if (array) {
+    const name = fieldName.replace(/(Ids|_ids)$/, '')
+    return name && name !== fieldName ? `${name}s` : `${fieldName}Docs`
+  }
+
+  const name = fieldName.replace(/(Id|_id)$/, '')
+  return name && name !== fieldName ? name : `${fieldName}Doc`
+}
+
+// Code of the function a unique constraint normalizes its fields with
+function getNormalizeFunction(
+  normalize: NonNullable<UniqueConstraintMeta['normalize']>
+): ExpressionMeta {
+  switch (normalize) {
+    case 'lowercase':
+      return { code: '(value: string) => value.toLowerCase()', imports: [] }
+    case 'trim':
+      return { code: '(value: string) => value.trim()', imports: [] }
+    default:
+      return normalize
+  }
+}
+
+/**
+ * Serialize a value like JSON.stringify, but emit expressions as raw code
+ */
+function toCode(value: unknown): string {
+  const expressions: string[] = []
+  const json = JSON.stringify(
+    value,
+    (_key, v) =>
+      isExpressionMeta(v)
+        ? `__EXPRESSION_${expressions.push(v.code) - 1}__`
+        : v,
+    2
+  )
+  return json.replace(
+    /"__EXPRESSION_(\d+)__"/g,
+    (_match, index) => expressions[Number(index)]
+  )
+}
 
 /**
  * Generates TypeScript code for constraints, indexes, and validation
  */
 export class CodeGenerator {
-  constructor(private schema: SchemaMetadata) {}
+  private schema: SchemaMetadata
+
+  constructor(
+    schema: SchemaMetadata,
+    private options: CodeGeneratorOptions = {}
+  ) {
+    // Only the tables passed to defineSchema() are part of the data model. Others
+    // may be declared in the files the schema imports, without being used.
+    this.schema = {
+      ...schema,
+      tables: Object.fromEntries(
+        Object.entries(schema.tables).filter(([, table]) => table.exportKey)
+      ),
+    }
+  }
+
+  /**
+   * Check the parsed schema for constraints that cannot be enforced at runtime
+   */
+  private validateSchema(): void {
+    const tables = Object.values(this.schema.tables)
+
+    // The bookkeeping tables the runtime writes to have to be in the data model
+    for (const table of getBookkeepingTables(this.schema)) {
+      if (this.schema.schemaTables && !this.schema.schemaTables.includes(table)) {
+        const usedBy = table === REFS_TABLE ? 'relations on array fields' : 'sequences'
+        throw new Error(
+          `The schema has ${usedBy}, which need the '${table}' table. ` +
+            `Add ...convexSqlTables from the generated tables.ts to defineSchema().`
+        )
+      }
+    }
+
+    for (const table of tables) {
+      if (table.softDelete) {
+        this.validateSoftDelete(table, table.softDelete)
+      }
+
+      // Referenced tables have to be part of the data model too
+      for (const relation of getTargetRelations(table.constraints)) {
+        if (!tables.some((t) => t.name === relation.targetTable)) {
+          throw new Error(
+            `Relation '${table.name}.${relation.field}' targets '${relation.targetTable}', which is not part of defineSchema(). Add it to the schema.`
+          )
+        }
+      }
+
+      const defaultedFields = new Set(
+        table.constraints
+          .filter((c): c is DefaultConstraintMeta => c.type === 'default')
+          .map((c) => c.field)
+      )
+
+      for (const constraint of table.constraints) {
+        if (constraint.type === 'unique' && constraint.normalize) {
+          this.validateNormalizedFields(table, constraint)
+          continue
+        }
+        if (constraint.type === 'manyToMany') {
+          this.validateManyToMany(table, constraint)
+          continue
+        }
+        if (constraint.type === 'polymorphic') {
+          this.validatePolymorphic(table, constraint, defaultedFields)
+          continue
+        }
+        if (constraint.type === 'sequence') {
+          this.validateSequence(table, constraint, defaultedFields)
+          continue
+        }
+        if (constraint.type !== 'relation') continue
+
+        const field = getFieldAtPath(table.fields, constraint.field)
+
+        for (const action of ['onDelete', 'onUpdate'] as const) {
+          if (
+            constraint[action] === 'setDefault' &&
+            !defaultedFields.has(constraint.field)
+          ) {
+            throw new Error(
+              `Relation '${table.name}.${constraint.field}' uses ${action}: 'setDefault', ` +
+                `but '${constraint.field}' has no default. Add c.default('${constraint.field}', ...) to '${table.name}'.`
+            )
+          }
+
+          // setNull clears the field, which only an optional field allows.
+          // On array fields it removes the id from the array instead.
+          if (
+            constraint[action] === 'setNull' &&
+            field &&
+            field.kind !== 'unknown' &&
+            field.kind !== 'array' &&
+            !field.optional
+          ) {
+            throw new Error(
+              `Relation '${table.name}.${constraint.field}' uses ${action}: 'setNull', ` +
+                `but '${constraint.field}' is required. Wrap its validator in v.optional(...).`
+            )
+          }
+        }
+
+        if (field) {
+          this.validateRelationFieldType(table, constraint, field)
+        }
+
+        // Names become accessor function names in the generated code
+        for (const name of [constraint.name, constraint.inverseName]) {
+          if (name && !/^[A-Za-z_$][\w$]*$/.test(name)) {
+            throw new Error(
+              `Relation '${table.name}.${constraint.field}' has name '${name}', which is not a valid identifier.`
+            )
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that the fields of a normalized unique constraint are strings,
+   * normalized the same way by every constraint that normalizes them
+   */
+  private validateNormalizedFields(
+    table: TableMetadata,
+    unique: UniqueConstraintMeta
+  ): void {
+    for (const field of unique.fields) {
+      // Shadow fields are only kept for top-level fields
+      if (field.includes('.')) {
+        throw new Error(
+          `Unique constraint on '${table.name}.${field}' uses normalize, which nested fields don't support. Normalize a top-level field instead.`
+        )
+      }
+
+      const fieldType = getFieldAtPath(table.fields, field)
+      if (
+        fieldType &&
+        fieldType.kind !== 'unknown' &&
+        fieldType.kind !== 'string'
+      ) {
+        throw new Error(
+          `Unique constraint on '${table.name}.${field}' uses normalize, but '${field}' is not a string field.`
+        )
+      }
+
+      const conflicting = table.constraints.some(
+        (c) =>
+          c.type === 'unique' &&
+          c.normalize &&
+          c.fields.includes(field) &&
+          JSON.stringify(c.normalize) !== JSON.stringify(unique.normalize)
+      )
+      if (conflicting) {
+        throw new Error(
+          `Field '${table.name}.${field}' is normalized differently by two unique constraints. Use the same normalize option for both.`
+        )
+      }
+    }
+  }
+
+  /**
+   * Check that the soft-delete field of a table can hold the deletion time,
+   * and be left out on records that are not deleted
+   */
+  private validateSoftDelete(table: TableMetadata, softDelete: string): void {
+    const field = getFieldAtPath(table.fields, softDelete)
+    if (!field) {
+      throw new Error(
+        `Soft-delete field '${softDelete}' does not exist in table '${table.name}'.`
+      )
+    }
+    if (field.kind !== 'unknown' && (field.kind !== 'float64' || !field.optional)) {
+      throw new Error(
+        `Soft-delete field '${table.name}.${softDelete}' must be v.optional(v.number()).`
+      )
+    }
+  }
+
+  /**
+   * Check that a sequence field can hold the numbers it is assigned,
+   * and isn't given a value some other way
+   */
+  private validateSequence(
+    table: TableMetadata,
+    sequence: SequenceConstraint,
+    defaultedFields: Set<string>
+  ): void {
+    const field = getFieldAtPath(table.fields, sequence.field)
+    if (field && field.kind !== 'unknown' && field.kind !== 'float64') {
+      throw new Error(
+        `Sequence field '${table.name}.${sequence.field}' must be v.number().`
+      )
+    }
+    if (defaultedFields.has(sequence.field)) {
+      throw new Error(
+        `Sequence field '${table.name}.${sequence.field}' also has a default. Remove c.default('${sequence.field}', ...) from '${table.name}'.`
+      )
+    }
+  }
+
+  /**
+   * Check that a polymorphic foreign key holds ids of its target tables,
+   * and can be reset the way each target's onDelete asks for
+   */
+  private validatePolymorphic(
+    table: TableMetadata,
+    relation: PolymorphicConstraintMeta,
+    defaultedFields: Set<string>
+  ): void {
+    const field = getFieldAtPath(table.fields, relation.field)
+    const actions = Object.values(relation.onDelete)
+
+    if (actions.includes('setDefault') && !defaultedFields.has(relation.field)) {
+      throw new Error(
+        `Polymorphic relation '${table.name}.${relation.field}' uses onDelete: 'setDefault', ` +
+          `but '${relation.field}' has no default. Add c.default('${relation.field}', ...) to '${table.name}'.`
+      )
+    }
+
+    if (!field || field.kind === 'unknown') return
+
+    if (actions.includes('setNull') && !field.optional) {
+      throw new Error(
+        `Polymorphic relation '${table.name}.${relation.field}' uses onDelete: 'setNull', ` +
+          `but '${relation.field}' is required. Wrap its validator in v.optional(...).`
+      )
+    }
+
+    const tables = Object.values(this.schema.tables)
+    const targetNames = relation.targetTables.flatMap((name) => [
+      name,
+      tables.find((t) => t.name === name)?.exportKey || name,
+    ])
+    if (!holdsIdsOf(field, targetNames)) {
+      throw new Error(
+        `Polymorphic relation '${table.name}.${relation.field}' targets ${relation.targetTables.map((name) => `'${name}'`).join(', ')}, ` +
+          `so '${relation.field}' must be a v.union() of their v.id() validators.`
+      )
+    }
+  }
+
+  /**
+   * Check that a many-to-many link can be stored: its join table has to be part
+   * of the schema, and its name becomes the link/unlink/list accessor names
+   */
+  private validateManyToMany(
+    table: TableMetadata,
+    manyToMany: ManyToManyConstraintMeta
+  ): void {
+    if (!/^[A-Za-z_$][\w$]*$/.test(manyToMany.name)) {
+      throw new Error(
+        `Many-to-many '${table.name}.${manyToMany.name}' does not have a valid identifier as its name.`
+      )
+    }
+
+    const tables = Object.values(this.schema.tables)
+    if (!tables.some((t) => t.name === manyToMany.through)) {
+      throw new Error(
+        `Many-to-many '${table.name}.${manyToMany.name}' goes through '${manyToMany.through}', which is not part of defineSchema(). Add it to the schema.`
+      )
+    }
+    if (!tables.some((t) => t.name === manyToMany.targetTable)) {
+      throw new Error(
+        `Many-to-many '${table.name}.${manyToMany.name}' targets '${manyToMany.targetTable}', which is not part of defineSchema(). Add it to the schema.`
+      )
+    }
+  }
+
+  /**
+   * Check that a foreign key can hold the values it references: an id of the
+   * target table, or a value of the same type as the target field
+   */
+  private validateRelationFieldType(
+    table: TableMetadata,
+    relation: RelationConstraintMeta,
+    field: FieldType
+  ): void {
+    if (field.kind === 'unknown') return
+
+    const target = Object.values(this.schema.tables).find(
+      (t) => t.name === relation.targetTable
+    )
+    const targetKey = target?.exportKey || relation.targetTable
+
+    // Array foreign keys hold ids, each element referencing a record
+    if (field.kind === 'array') {
+      if (relation.targetField) {
+        throw new Error(
+          `Relation '${table.name}.${relation.field}' is on an array field, which can only reference ids. Remove targetField.`
+        )
+      }
+      // Deleting a referenced record removes its id, never the whole referencing record
+      if (
+        relation.onDelete === 'cascade' ||
+        relation.onDelete === 'setDefault'
+      ) {
+        throw new Error(
+          `Relation '${table.name}.${relation.field}' is on an array field, which does not support onDelete: '${relation.onDelete}'. ` +
+            `Use 'setNull' to remove the deleted id from the array, or 'restrict'.`
+        )
+      }
+      if (!holdsIdsOf(field.element, [relation.targetTable, targetKey])) {
+        throw new Error(
+          `Relation '${table.name}.${relation.field}' targets '${relation.targetTable}', ` +
+            `so '${relation.field}' must be v.array(v.id('${targetKey}')).`
+        )
+      }
+      return
+    }
+
+    if (relation.targetField) {
+      const targetField =
+        target && getFieldAtPath(target.fields, relation.targetField)
+
+      if (targetField && !isSameFieldType(field, targetField)) {
+        throw new Error(
+          `Relation '${table.name}.${relation.field}' references '${relation.targetTable}.${relation.targetField}', ` +
+            `but the two fields have different types.`
+        )
+      }
+      return
+    }
+
+    if (!holdsIdsOf(field, [relation.targetTable, targetKey])) {
+      throw new Error(
+        `Relation '${table.name}.${relation.field}' targets '${relation.targetTable}', ` +
+          `so '${relation.field}' must be v.id('${targetKey}').`
+      )
+    }
+  }
+
+  /**
+   * Generate the imports needed by expressions lifted out of the schema
+   */
+  generateExpressionImports(): string {
+    const importsByModule = new Map<string, Map<string, ExpressionImport>>()
+
+    for (const table of Object.values(this.schema.tables)) {
+      for (const constraint of table.constraints) {
+        for (const expression of getConstraintExpressions(constraint)) {
+          for (const expressionImport of expression.imports) {
+            const from = this.toImportPath(expressionImport.from)
+            const imports = importsByModule.get(from) ?? new Map()
+            imports.set(expressionImport.name, expressionImport)
+            importsByModule.set(from, imports)
+          }
+        }
+      }
+    }
+
+    const lines: string[] = []
+    for (const [from, imports] of importsByModule) {
+      const named: string[] = []
+      for (const { name, importedName } of imports.values()) {
+        if (importedName === 'default') {
+          lines.push(`import ${name} from '${from}'`)
+        } else if (importedName === '*') {
+          lines.push(`import * as ${name} from '${from}'`)
+        } else {
+          named.push(
+            importedName === name ? name : `${importedName} as ${name}`
+          )
+        }
+      }
+      if (named.length > 0) {
+        lines.push(`import { ${named.join(', ')} } from '${from}'`)
+      }
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Resolve an import of the schema to a path relative to the generated code
+   */
+  private toImportPath(from: string): string {
+    if (!isAbsolute(from) || !this.options.outputDir) return from
+
+    const path = relative(this.options.outputDir, from).split(sep).join('/')
+    return path.startsWith('.') ? path : `./${path}`
+  }
+
+  /**
+   * Generate a type mapping each table to the fields that have a default or
+   * a sequence, so those fields can be omitted on insert
+   */
+  generateDefaultedFieldsType(): string {
+    const defaultedFields: string[] = []
+
+    for (const table of Object.values(this.schema.tables)) {
+      const fields = table.constraints
+        .filter(
+          (c): c is DefaultConstraintMeta | SequenceConstraint =>
+            c.type === 'default' || c.type === 'sequence'
+        )
+        .map((c) => JSON.stringify(c.field))
+
+      if (fields.length > 0) {
+        const exportKey = table.exportKey || table.name
+        defaultedFields.push(
+          `  ${JSON.stringify(exportKey)}: ${fields.join(' | ')}`
+        )
+      }
+    }
+
+    return `
+type DefaultedFields = {
+${defaultedFields.join('\n')}
+}
+    `
+  }
 
   generateTableConstraintsMap(): string {
     const tableConstraints: Record<string, any> = {}
 
     // Build constraints for each table using export keys
-    for (const [variableName, table] of Object.entries(this.schema.tables)) {
+    for (const table of Object.values(this.schema.tables)) {
       const exportKey = table.exportKey || table.name
 
-      // Extract unique constraints
+      // Extract unique constraints along with the index that backs them.
+      // A scope just adds fields to the key, the where filter stays apart.
       const uniqueConstraints = table.constraints
-        .filter((c) => c.type === 'unique')
-        .map((c) => c.field)
-
-      // Extract relation constraints
-      const relationConstraints = table.constraints
-        .filter((c) => c.type === 'relation')
+        .filter((c): c is UniqueConstraintMeta => c.type === 'unique')
         .map((c) => {
-          // For TS we just add this even though it will never happen
-          if (c.type !== 'relation') {
-            return undefined
+          const fields = [...new Set([...(c.scope ?? []), ...c.fields])]
+          return {
+            fields,
+            index: autoIndexName(getUniqueIndexFields(c)),
+            ...(c.where ? { where: c.where } : {}),
+            // A normalized constraint is looked up by the shadow fields of its own fields
+            ...(c.normalize
+              ? {
+                  keyFields: fields.map((field) =>
+                    c.fields.includes(field) ? normalizedFieldName(field) : field
+                  ),
+                }
+              : {}),
           }
+        })
+
+      // Extract sequences, whose numbers are unique within their scope as well
+      const sequences = table.constraints.filter(
+        (c): c is SequenceConstraint => c.type === 'sequence'
+      )
+      for (const sequence of sequences) {
+        const index = autoIndexName(getSequenceIndexFields(sequence))
+        if (!uniqueConstraints.some((c) => c.index === index && !c.where)) {
+          uniqueConstraints.push({
+            fields: getSequenceIndexFields(sequence),
+            index,
+          })
+        }
+      }
+
+      // Extract relation constraints, with one per target for polymorphic relations
+      const relationConstraints = getTargetRelations(table.constraints).map(
+        (c) => {
+          const field = getFieldAtPath(table.fields, c.field)
           return {
             field: c.field,
             targetTable: c.targetTable,
             targetField: c.targetField,
             onDelete: c.onDelete || 'restrict',
             onUpdate: c.onUpdate || 'restrict',
+            ...(isArrayField(table.fields, c.field) ? { array: true } : {}),
+            // Whether the validator lets the field be left out or set to null
+            ...(field?.optional ? { optional: true } : {}),
+            ...(field && isNullable(field) ? { nullable: true } : {}),
+            ...(c.polymorphic ? { polymorphic: true } : {}),
           }
-        })
+        }
+      )
+
+      // Extract the shadow field and normalize function of every normalized unique field
+      const normalized = Object.fromEntries(
+        table.constraints
+          .filter((c): c is UniqueConstraintMeta => c.type === 'unique')
+          .flatMap((c) =>
+            c.normalize
+              ? c.fields.map((field) => [
+                  field,
+                  {
+                    field: normalizedFieldName(field),
+                    normalize: getNormalizeFunction(c.normalize!),
+                  },
+                ])
+              : []
+          )
+      )
+
+      // Extract default values, kept as code so function defaults are emitted as functions
+      const defaults = Object.fromEntries(
+        table.constraints
+          .filter((c): c is DefaultConstraintMeta => c.type === 'default')
+          .map((c) => [c.field, c.value])
+      )
+
+      // Extract check constraints, kept as code so the predicates run at runtime
+      const checks = table.constraints
+        .filter((c): c is CheckConstraintMeta => c.type === 'check')
+        .map((c) => ({ name: c.name, predicate: c.predicate }))
 
       tableConstraints[exportKey] = {
         unique: uniqueConstraints,
         relations: relationConstraints,
+        defaults,
+        checks,
+        ...(Object.keys(normalized).length > 0 ? { normalized } : {}),
+        ...(sequences.length > 0
+          ? {
+              sequences: sequences.map((c) => ({
+                field: c.field,
+                index: autoIndexName(getSequenceIndexFields(c)),
+                ...(c.scope ? { scope: c.scope } : {}),
+              })),
+            }
+          : {}),
+        ...(table.softDelete ? { softDelete: table.softDelete } : {}),
+        ...(table.timestamps ? { timestamps: true } : {}),
+        ...(table.audited ? { audited: true } : {}),
       }
     }
 
     return `
-    const TABLE_CONSTRAINTS: TableConstraints = ${JSON.stringify(
-      tableConstraints,
-      null,
-      2
-    )};
+    const TABLE_CONSTRAINTS: TableConstraints = ${toCode(tableConstraints)};
     `
   }
 
   /**
-   * Generate the database wrapper that intercepts insert/replace/delete operations
+   * Generate the name of the table array foreign keys are tracked in. With array
+   * foreign keys in the schema it is typed as one of its tables, so leaving the
+   * table out of defineSchema() fails to compile.
    */
-  generateDbWrapper(): string {
-    const tableConstraintsCode = this.generateTableConstraintsMap()
+  generateRefsTable(): string {
+    return getBookkeepingTables(this.schema).includes(REFS_TABLE)
+      ? `
+// Array foreign keys are tracked in this table. Add it to the schema with ...convexSqlTables from './tables'
+const REFS_TABLE: TableNames = '${REFS_TABLE}'
+    `
+      : `
+const REFS_TABLE = '${REFS_TABLE}' as TableNames
+    `
+  }
 
-    const importCode = `
-    import {
-  customMutation,
-  customCtx,
-} from 'convex-helpers/server/customFunctions'
-import { DataModel, Doc, Id, TableNames } from '../_generated/dataModel'
-import { MutationCtx, QueryCtx } from '../_generated/server'
-import {
-  DocumentByName,
-  FunctionVisibility,
-  GenericDatabaseWriter,
-  MutationBuilder,
-  QueryBuilder,
-  TableNamesInDataModel,
-  WithOptionalSystemFields,
-  WithoutSystemFields,
-} from 'convex/server'
-import { GenericId } from 'convex/values'
-import { DeleteAction } from 'convex-sql'
+  /**
+   * Generate the name of the table sequences keep their counters in, typed as one
+   * of the schema's tables when it has sequences, like the refs table
+   */
+  generateSequencesTable(): string {
+    return getBookkeepingTables(this.schema).includes(SEQUENCES_TABLE)
+      ? `
+// Sequences count in this table. Add it to the schema with ...convexSqlTables from './tables'
+const SEQUENCES_TABLE: TableNames = '${SEQUENCES_TABLE}'
     `
+      : `
+const SEQUENCES_TABLE = '${SEQUENCES_TABLE}' as TableNames
+    `
+  }
 
-    const tableConstraintsType = `
-type TableConstraints = {
-  [T in TableNames]?: {
-    unique?: Array<keyof WithoutSystemFields<Doc<T>>>
-    relations?: Array<
-      {
-        field: keyof WithoutSystemFields<Doc<T>>
-      } & {
-        targetTable: TableNames
-        targetField?: keyof WithoutSystemFields<Doc<any>>
-        onDelete?: DeleteAction
-        onUpdate?: DeleteAction
+  /**
+   * Generate the relations each table can load with .with(): the row a foreign key
+   * references, and the rows referencing the table through the foreign key's index
+   */
+  generateTableRelationsMap(): string {
+    const tables = Object.values(this.schema.tables)
+    const tableRelations: Record<string, Record<string, object>> = {}
+
+    const getTableKey = (name: string) => {
+      const table = tables.find((t) => t.name === name)
+      return table?.exportKey || name
+    }
+    const relationsOf = (table: TableMetadata) =>
+      table.constraints.filter(
+        (c): c is RelationConstraintMeta => c.type === 'relation'
+      )
+
+    // Loaded relations are set on the document, so a name can't repeat another
+    // relation of the table or one of its fields, whether given or generated
+    const addRelation = (
+      tableName: string,
+      name: string,
+      source: string,
+      relation: object
+    ) => {
+      const table = tables.find((t) => t.name === tableName)
+      const relations = (tableRelations[getTableKey(tableName)] ??= {})
+
+      if (relations[name]) {
+        throw new Error(
+          `Relation name '${name}' of ${source} is already used by another relation of '${tableName}'. Give one of them a different name.`
+        )
       }
-    >
+      if (
+        ['_id', '_creationTime'].includes(name) ||
+        (table && name in table.fields)
+      ) {
+        throw new Error(
+          `Relation name '${name}' of ${source} is also a field of '${tableName}'. Give the relation a different name.`
+        )
+      }
+      relations[name] = relation
+    }
+
+    // Relations from the foreign key side are named after the field, unless given a name
+    for (const table of tables) {
+      for (const relation of relationsOf(table)) {
+        const array = isArrayField(table.fields, relation.field)
+        const name = relation.name || getRelationName(relation.field, array)
+        const source = `'${table.name}.${relation.field}'`
+
+        addRelation(table.name, name, source, {
+          type: 'one',
+          table: getTableKey(relation.targetTable),
+          field: relation.field,
+          ...(array ? { array: true } : {}),
+          ...(relation.targetField
+            ? {
+                targetField: relation.targetField,
+                index: autoIndexName([relation.targetField]),
+              }
+            : {}),
+        })
+      }
+    }
+
+    // Polymorphic relations load the row from whichever table the id belongs to
+    for (const table of tables) {
+      for (const relation of table.constraints) {
+        if (relation.type !== 'polymorphic') continue
+        const tableKeys = relation.targetTables.map(getTableKey)
+        const source = `'${table.name}.${relation.field}'`
+
+        addRelation(table.name, getRelationName(relation.field), source, {
+          type: 'one',
+          table: tableKeys[0],
+          tables: tableKeys,
+          field: relation.field,
+        })
+      }
+    }
+
+    // Many-to-many links load the target rows through the join table's index on the source field
+    for (const table of tables) {
+      for (const manyToMany of table.constraints) {
+        if (manyToMany.type !== 'manyToMany') continue
+
+        const [field, throughField] = manyToMany.fields
+        const source = `many-to-many '${table.name}.${manyToMany.name}'`
+
+        addRelation(table.name, manyToMany.name, source, {
+          type: 'manyToMany',
+          table: getTableKey(manyToMany.targetTable),
+          through: getTableKey(manyToMany.through),
+          field,
+          throughField,
+          index: autoIndexName([field]),
+        })
+      }
+    }
+
+    // Relations from the referenced side are named by inverseName, or after the
+    // referencing table, qualified by field when that table has several foreign keys to this one
+    for (const table of tables) {
+      const exportKey = table.exportKey || table.name
+
+      for (const relation of getTargetRelations(table.constraints)) {
+        const targetKey = getTableKey(relation.targetTable)
+        const relations = tableRelations[targetKey] ?? {}
+
+        const isAmbiguous =
+          getTargetRelations(table.constraints).filter(
+            (r) => getTableKey(r.targetTable) === targetKey
+          ).length > 1
+
+        const name =
+          relation.inverseName ||
+          (isAmbiguous || relations[exportKey]
+            ? `${exportKey}By${capitalize(relation.field.replace(/\./g, '_'))}`
+            : exportKey)
+
+        const source = `the inverse of '${table.name}.${relation.field}'`
+
+        // Records referencing this one from an array are found through convex_sql_refs
+        addRelation(relation.targetTable, name, source, {
+          type: 'many',
+          table: exportKey,
+          field: relation.field,
+          ...(isArrayField(table.fields, relation.field)
+            ? { array: true }
+            : { index: autoIndexName([relation.field]) }),
+          ...(relation.targetField
+            ? { targetField: relation.targetField }
+            : {}),
+        })
+      }
+    }
+
+    return `
+    const TABLE_RELATIONS = ${JSON.stringify(tableRelations, null, 2)} as const satisfies {
+  [T in TableNames]?: Record<string, RelationMeta>
+};
+    `
+  }
+
+  /**
+   * Generate typed accessors for named relations: get<Name>(ctx, doc) loads the row
+   * a foreign key references, list<InverseName>(ctx, doc) the rows referencing a document.
+   * Many-to-many links get list<Name>(ctx, doc), link<Name>(ctx, id, targetId) and unlink<Name>(ctx, id, targetId).
+   */
+  generateRelationHelpers(): string {
+    const tables = Object.values(this.schema.tables)
+    const helpers = new Map<string, string>()
+
+    const getTableKey = (name: string) => {
+      const table = tables.find((t) => t.name === name)
+      return table?.exportKey || name
+    }
+    const setHelper = (helperName: string, code: string) => {
+      if (helpers.has(helperName)) {
+        throw new Error(
+          `Relation helper '${helperName}' would be generated twice. Give one of the relations a different name.`
+        )
+      }
+      helpers.set(helperName, code)
+    }
+    const addHelper = (
+      helperName: string,
+      description: string,
+      table: string,
+      relationName: string
+    ) => {
+      setHelper(
+        helperName,
+        `
+/**
+ * ${description}
+ */
+export async function ${helperName}(ctx: QueryCtx, doc: Doc<'${table}'>) {
+  return await loadNamedRelation(ctx, '${table}', '${relationName}', doc)
+}`
+      )
+    }
+
+    for (const table of tables) {
+      const exportKey = table.exportKey || table.name
+
+      for (const relation of table.constraints) {
+        if (relation.type === 'manyToMany') {
+          const name = capitalize(relation.name)
+          const targetKey = getTableKey(relation.targetTable)
+          const throughKey = getTableKey(relation.through)
+          const args = `ctx: AnyMutationCtx, id: Id<'${exportKey}'>, targetId: Id<'${targetKey}'>`
+
+          addHelper(
+            `list${name}`,
+            `Load the '${targetKey}' rows linked to a '${exportKey}' row through '${throughKey}'`,
+            exportKey,
+            relation.name
+          )
+          setHelper(
+            `link${name}`,
+            `
+/**
+ * Link a '${exportKey}' row to a '${targetKey}' row through '${throughKey}', unless they already are
+ */
+export async function link${name}(${args}) {
+  return (await linkManyToMany(ctx, '${exportKey}', '${relation.name}', id, targetId)) as Id<'${throughKey}'>
+}`
+          )
+          setHelper(
+            `unlink${name}`,
+            `
+/**
+ * Remove the '${throughKey}' row linking a '${exportKey}' row to a '${targetKey}' row, returning whether there was one
+ */
+export async function unlink${name}(${args}) {
+  return await unlinkManyToMany(ctx, '${exportKey}', '${relation.name}', id, targetId)
+}`
+          )
+          continue
+        }
+        if (relation.type !== 'relation') continue
+        const targetKey = getTableKey(relation.targetTable)
+
+        if (relation.name) {
+          addHelper(
+            `get${capitalize(relation.name)}`,
+            `Load the '${targetKey}' row referenced by ${exportKey}.${relation.field}`,
+            exportKey,
+            relation.name
+          )
+        }
+        if (relation.inverseName) {
+          addHelper(
+            `list${capitalize(relation.inverseName)}`,
+            `Load the '${exportKey}' rows referencing a '${targetKey}' row through ${exportKey}.${relation.field}`,
+            targetKey,
+            relation.inverseName
+          )
+        }
+      }
+    }
+
+    return Array.from(helpers.values()).join('\n')
+  }
+
+  /**
+   * Generate the database wrapper that intercepts insert/replace/patch/delete operations
+   */
+  generateDbWrapper(): string {
+    this.validateSchema()
+
+    const tableConstraintsCode = this.generateTableConstraintsMap()
+    const refsTableCode = this.generateRefsTable()
+    const sequencesTableCode = this.generateSequencesTable()
+    const tableRelationsCode = this.generateTableRelationsMap()
+    const relationHelpersCode = this.generateRelationHelpers()
+    const expressionImportsCode = this.generateExpressionImports()
+    const defaultedFieldsType = this.generateDefaultedFieldsType()
+
+    const importCode = `
+    import {
+  customMutation,
+  customQuery,
+  customCtx,
+} from 'convex-helpers/server/customFunctions'
+import { DataModel, Doc, Id, TableNames } from '../_generated/dataModel'
+import { MutationCtx, QueryCtx } from '../_generated/server'
+import {
+  DocumentByName,
+  ExpressionOrValue,
+  FilterBuilder,
+  FunctionVisibility,
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  IndexNames,
+  IndexRange,
+  IndexRangeBuilder,
+  MutationBuilder,
+  NamedIndex,
+  NamedTableInfo,
+  PaginationOptions,
+  PaginationResult,
+  OrderedQuery,
+  Query,
+  QueryBuilder,
+  QueryInitializer,
+  TableNamesInDataModel,
+  WithOptionalSystemFields,
+  WithoutSystemFields,
+} from 'convex/server'
+import { ConvexError, GenericId, Value } from 'convex/values'
+import { ConvexSqlError, DeleteAction, isConvexSqlError } from 'convex-sql'
+${expressionImportsCode}
+    `
+
+    const tableConstraintsType = `
+type TableConstraints = {
+  [T in TableNames]?: {
+    unique?: Array<{
+      fields: Array<keyof WithoutSystemFields<Doc<T>>>
+      index: string
+      where?: Partial<WithoutSystemFields<Doc<T>>> // Only records with these values are checked
+      keyFields?: string[] // The fields the index is looked up by, when they differ from fields
+    }>
+    relations?: Array<
+      {
+        field: keyof WithoutSystemFields<Doc<T>>
+      } & {
+        targetTable: TableNames
+        targetField?: keyof WithoutSystemFields<Doc<any>>
+        onDelete?: DeleteAction
+        onUpdate?: DeleteAction
+        array?: boolean // Each element of the field references a record
+        optional?: boolean // The field may be left out, referencing nothing
+        nullable?: boolean // The field may be null, referencing nothing
+        polymorphic?: boolean // One of several relations on the field, one per target table
+      }
+    >
+    defaults?: {
+      [K in keyof WithoutSystemFields<Doc<T>>]?:
+        | Doc<T>[K]
+        | (() => Doc<T>[K])
+    }
+    checks?: Array<{
+      name: string
+      predicate: (doc: WithoutSystemFields<Doc<T>>) => boolean
+    }>
+    normalized?: {
+      [K in keyof WithoutSystemFields<Doc<T>>]?: {
+        field: string // The shadow field holding the normalized value
+        normalize: (value: string) => string
+      }
+    }
+    sequences?: Array<{
+      field: keyof WithoutSystemFields<Doc<T>>
+      index: string // Covers the scope, then the field
+      scope?: Array<keyof WithoutSystemFields<Doc<T>>> // Each value of these fields is counted apart
+    }>
+    softDelete?: keyof WithoutSystemFields<Doc<T>> // Set to the deletion time instead of deleting
+    timestamps?: boolean // createdAt and updatedAt are set on write
+    audited?: boolean // createdBy and updatedBy are set from ctx.auth on write
+  }
+}
+
+// Insert value where fields with a default may be omitted
+type InsertValue<T extends TableNames> = T extends keyof DefaultedFields
+  ? Omit<WithoutSystemFields<Doc<T>>, DefaultedFields[T]> &
+      Partial<WithoutSystemFields<Doc<T>>>
+  : WithoutSystemFields<Doc<T>>
+
+type RelationMeta = {
+  type: 'one' | 'many' | 'manyToMany'
+  table: TableNames
+  field: string
+  targetField?: string
+  index?: string
+  through?: TableNames // The join table of a many-to-many link
+  throughField?: string // The join table field referencing the target
+  array?: boolean // The foreign key is an array of ids
+  tables?: readonly TableNames[] // Every table a polymorphic foreign key can reference
+}
+
+type TableRelations = typeof TABLE_RELATIONS
+
+// Relations of a table that can be selected with .with()
+type RelationInclude<T extends TableNames> = T extends keyof TableRelations
+  ? { [K in keyof TableRelations[T]]?: boolean }
+  : {}
+
+// What a relation loads: the referenced row (rows, for an array of ids),
+// or the rows referencing or linked to this one
+type RelatedDocs<Relation> = Relation extends
+  | { type: 'one'; array: true; table: infer R extends TableNames }
+  | { type: 'many' | 'manyToMany'; table: infer R extends TableNames }
+  ? Doc<R>[]
+  : Relation extends {
+        type: 'one'
+        tables: readonly (infer R extends TableNames)[]
+      }
+    ? Doc<R> | null
+    : Relation extends { type: 'one'; table: infer R extends TableNames }
+      ? Doc<R> | null
+      : never
+
+// A document with the relations selected in I loaded onto it
+type WithRelations<T extends TableNames, I> = Doc<T> & {
+  [K in keyof I as I[K] extends true ? K : never]: T extends keyof TableRelations
+    ? K extends keyof TableRelations[T]
+      ? RelatedDocs<TableRelations[T][K]>
+      : never
+    : never
+}
+
+type QueryIndexRange<
+  T extends TableNames,
+  IndexName extends IndexNames<NamedTableInfo<DataModel, T>>,
+> = (
+  q: IndexRangeBuilder<
+    DocumentByName<DataModel, T>,
+    NamedIndex<NamedTableInfo<DataModel, T>, IndexName>
+  >
+) => IndexRange
+
+type QueryPredicate<T extends TableNames> = (
+  q: FilterBuilder<NamedTableInfo<DataModel, T>>
+) => ExpressionOrValue<boolean>
+
+// Stages of a query returned by .with(), mirroring Convex's
+// QueryInitializer -> Query -> OrderedQuery
+interface RelationalOrderedQuery<T extends TableNames, I> {
+  filter(predicate: QueryPredicate<T>): RelationalOrderedQuery<T, I>
+  collect(): Promise<WithRelations<T, I>[]>
+  take(n: number): Promise<WithRelations<T, I>[]>
+  first(): Promise<WithRelations<T, I> | null>
+  unique(): Promise<WithRelations<T, I> | null>
+  paginate(
+    paginationOpts: PaginationOptions
+  ): Promise<PaginationResult<WithRelations<T, I>>>
+}
+
+interface RelationalQuery<T extends TableNames, I>
+  extends RelationalOrderedQuery<T, I> {
+  filter(predicate: QueryPredicate<T>): RelationalQuery<T, I>
+  order(order: 'asc' | 'desc'): RelationalOrderedQuery<T, I>
+}
+
+interface RelationalQueryInitializer<T extends TableNames, I>
+  extends RelationalQuery<T, I> {
+  withIndex<IndexName extends IndexNames<NamedTableInfo<DataModel, T>>>(
+    indexName: IndexName,
+    indexRange?: QueryIndexRange<T, IndexName>
+  ): RelationalQuery<T, I>
+  fullTableScan(): RelationalQuery<T, I>
+}
+
+// Convex's query stages, each with .with() to load relations from there on
+interface OrderedQueryWithRelations<T extends TableNames>
+  extends OrderedQuery<NamedTableInfo<DataModel, T>> {
+  with<const I extends RelationInclude<T>>(
+    include: I
+  ): RelationalOrderedQuery<T, I>
+}
+
+interface QueryWithRelations<T extends TableNames>
+  extends Query<NamedTableInfo<DataModel, T>> {
+  order(order: 'asc' | 'desc'): OrderedQueryWithRelations<T>
+  with<const I extends RelationInclude<T>>(include: I): RelationalQuery<T, I>
+}
+
+interface QueryInitializerWithRelations<T extends TableNames>
+  extends QueryInitializer<NamedTableInfo<DataModel, T>> {
+  withIndex<IndexName extends IndexNames<NamedTableInfo<DataModel, T>>>(
+    indexName: IndexName,
+    indexRange?: QueryIndexRange<T, IndexName>
+  ): QueryWithRelations<T>
+  fullTableScan(): QueryWithRelations<T>
+  order(order: 'asc' | 'desc'): OrderedQueryWithRelations<T>
+  with<const I extends RelationInclude<T>>(
+    include: I
+  ): RelationalQueryInitializer<T, I>
+}
+    `
+    const staticWrapperCode = `
+    // STATIC WRAPPER CODE... WILL NOT BE REGENERATED EVERY TIME.
+
+// Helpers to raise structured errors the client can branch on
+function constraintError(error: ConvexSqlError) {
+  return new ConvexError<ConvexSqlError>(error)
+}
+
+function notFoundError(table: TableNames, id: Id<any>) {
+  return constraintError({
+    kind: 'notFound',
+    message: \`Document with id '\${id}' does not exist in \${table}\`,
+    table,
+    value: id,
+  })
+}
+
+// Helper to resolve which table an id belongs to
+function getTableName<T extends TableNames>(ctx: QueryCtx, id: Id<T>): T {
+  for (const table of Object.keys(TABLE_CONSTRAINTS) as T[]) {
+    if (ctx.db.normalizeId(table, id) !== null) {
+      return table
+    }
+  }
+  throw new Error(\`Could not resolve the table for id '\${id}'\`)
+}
+
+// Helper to fill in fields missing from an insert with their default values
+function applyDefaults<T extends TableNames>(
+  table: T,
+  value: InsertValue<T>
+): WithoutSystemFields<Doc<T>> {
+  const doc: Record<string, unknown> = { ...value }
+  const defaults = TABLE_CONSTRAINTS[table]?.defaults ?? {}
+
+  for (const field of Object.keys(defaults)) {
+    if (doc[field] === undefined) {
+      doc[field] = getDefaultValue(table, field)
+    }
+  }
+
+  return doc as WithoutSystemFields<Doc<T>>
+}
+
+// Helper to get the default value of a field, calling function defaults
+function getDefaultValue<T extends TableNames>(table: T, field: string) {
+  const defaults: Record<string, unknown> =
+    TABLE_CONSTRAINTS[table]?.defaults ?? {}
+  const defaultValue = defaults[field]
+  if (defaultValue === undefined) {
+    throw new Error(\`No default value is declared for \${table}.\${field}\`)
+  }
+  return typeof defaultValue === 'function' ? defaultValue() : defaultValue
+}
+
+// Helper to keep the shadow fields of normalized unique fields in step with a write.
+// A partial write (a patch) only touches the shadow fields of the fields it sets.
+function applyNormalized<V extends object>(
+  table: TableNames,
+  value: V,
+  partial = false
+): V {
+  const normalized: Record<
+    string,
+    { field: string; normalize: (value: string) => string } | undefined
+  > = TABLE_CONSTRAINTS[table]?.normalized ?? {}
+  const doc = { ...value } as Record<string, unknown>
+
+  for (const [field, shadow] of Object.entries(normalized)) {
+    if (!shadow || (partial && !(field in doc))) continue
+    const fieldValue = doc[field]
+    doc[shadow.field] =
+      typeof fieldValue === 'string' ? shadow.normalize(fieldValue) : undefined
+  }
+
+  return doc as V
+}
+
+// Helper to set the fields added by .timestamps() and .audited() on a write.
+// An insert sets them all, a replace or patch of an existing record keeps its created ones.
+async function applyManagedFields<V extends object>(
+  ctx: MutationCtx,
+  table: TableNames,
+  value: V,
+  existing?: Record<string, any>
+): Promise<V> {
+  const constraints = TABLE_CONSTRAINTS[table]
+  if (!constraints?.timestamps && !constraints?.audited) return value
+
+  const doc = { ...value } as Record<string, unknown>
+  if (constraints.timestamps) {
+    const now = Date.now()
+    doc.createdAt = existing ? existing.createdAt : now
+    doc.updatedAt = now
+  }
+  if (constraints.audited) {
+    // Left unset when nobody is signed in
+    const identity = await ctx.auth.getUserIdentity()
+    doc.createdBy = existing ? existing.createdBy : identity?.tokenIdentifier
+    doc.updatedBy = identity?.tokenIdentifier
+  }
+
+  return doc as V
+}
+
+type SequenceMeta = NonNullable<
+  NonNullable<TableConstraints[TableNames]>['sequences']
+>[number]
+
+// Sequences count apart for every value of their scope, keyed by the values as JSON
+function getSequenceScope(sequence: SequenceMeta, doc: Record<string, any>): string {
+  return JSON.stringify(
+    (sequence.scope ?? []).map((field) => doc[String(field)] ?? null)
+  )
+}
+
+async function findSequenceCounter(
+  ctx: QueryCtx,
+  table: TableNames,
+  field: string,
+  scope: string
+): Promise<Record<string, any> | null> {
+  return await ctx.db
+    .query(SEQUENCES_TABLE)
+    .withIndex('by_sequence' as any, (q: any) =>
+      q.eq('table', table).eq('field', field).eq('scope', scope)
+    )
+    .first()
+}
+
+// Helper to number a record being inserted. Sequence fields left out are set to one
+// past the last number of their scope: its counter, or the highest number in the
+// table when the scope has no counter yet.
+async function applySequences<V extends object>(
+  ctx: MutationCtx,
+  table: TableNames,
+  value: V
+): Promise<V> {
+  const sequences = TABLE_CONSTRAINTS[table]?.sequences
+  if (!sequences?.length) return value
+
+  const doc = { ...value } as Record<string, any>
+  for (const sequence of sequences) {
+    const field = String(sequence.field)
+    if (doc[field] !== undefined) continue
+
+    const counter = await findSequenceCounter(
+      ctx,
+      table,
+      field,
+      getSequenceScope(sequence, doc)
+    )
+    if (counter) {
+      doc[field] = counter.value + 1
+      continue
+    }
+
+    // Soft-deleted records keep their numbers, so they count as well
+    const scope = (sequence.scope ?? []).map(String)
+    const last: Record<string, any> | null = await ctx.db
+      .query(table)
+      .withIndex(sequence.index as any, (q: any) =>
+        scope.reduce((range, field) => range.eq(field, doc[field]), q)
+      )
+      .order('desc')
+      .first()
+    doc[field] = (last?.[field] ?? 0) + 1
+  }
+
+  return doc as V
+}
+
+// Helper to move the counters of a record's sequences up to its numbers, after it was
+// written. Numbers set by hand move them too, so they aren't handed out again.
+async function saveSequences(ctx: MutationCtx, table: TableNames, id: Id<any>) {
+  const sequences = TABLE_CONSTRAINTS[table]?.sequences
+  if (!sequences?.length) return
+
+  const doc: Record<string, any> | null = await ctx.db.get(id)
+  if (!doc) return
+  for (const sequence of sequences) {
+    const field = String(sequence.field)
+    const value = doc[field]
+    if (typeof value !== 'number') continue
+
+    const scope = getSequenceScope(sequence, doc)
+    const counter = await findSequenceCounter(ctx, table, field, scope)
+    if (!counter) {
+      await ctx.db.insert(SEQUENCES_TABLE, {
+        table,
+        field,
+        scope,
+        value,
+      } as any)
+    } else if (counter.value < value) {
+      await ctx.db.patch(counter._id, { value } as any)
+    }
+  }
+}
+
+// Records of soft-delete tables are kept on delete, with the deletion time set
+function isSoftDeleted(table: TableNames, doc: Record<string, any>): boolean {
+  const field = TABLE_CONSTRAINTS[table]?.softDelete
+  return field !== undefined && doc[field as string] !== undefined
+}
+
+// Helper to leave soft-deleted records out of a query. Filters only apply once
+// an index is picked, so the filter follows whichever way the query starts.
+function excludeSoftDeleted<T extends TableNames>(
+  table: T,
+  query: QueryInitializer<NamedTableInfo<DataModel, T>>
+): QueryInitializer<NamedTableInfo<DataModel, T>> {
+  const field = TABLE_CONSTRAINTS[table]?.softDelete
+  if (!field) return query
+
+  const live = (q: any) =>
+    q.filter((f: any) => f.eq(f.field(String(field)), undefined))
+  return Object.assign(live(query), {
+    withIndex: (...args: any[]) => live((query.withIndex as any)(...args)),
+    withSearchIndex: (...args: any[]) =>
+      live((query.withSearchIndex as any)(...args)),
+    fullTableScan: () => live(query.fullTableScan()),
+  })
+}
+
+// Validation helper functions
+// Helper to validate unique constraints
+// When changedFields is given, only constraints covering one of them are checked
+async function validateUniqueConstraints<T extends TableNames>(
+  ctx: QueryCtx,
+  table: T,
+  data: Partial<WithoutSystemFields<Doc<T>>>,
+  excludeId?: Id<T>,
+  changedFields?: string[]
+) {
+  const constraints = TABLE_CONSTRAINTS[table]
+  if (!constraints || !constraints.unique?.length) return
+  // A soft-deleted record can't collide with anything
+  if (isSoftDeleted(table, data)) return
+
+  for (const unique of constraints.unique) {
+    const fields = unique.fields.map(String)
+    const where: Record<string, unknown> = unique.where ?? {}
+    const whereFields = Object.keys(where).filter(
+      (field) => !fields.includes(field)
+    )
+    if (
+      changedFields &&
+      ![...fields, ...whereFields].some((field) => changedFields.includes(field))
+    ) {
+      continue
+    }
+
+    // Like a partial index in SQL, only records matching the filter are checked
+    if (Object.keys(where).some((field) => (data as any)[field] !== where[field])) {
+      continue
+    }
+
+    const values = unique.fields.map((field) => data[field])
+    // Rows missing any column of the key can never collide
+    if (values.some((value) => value === undefined)) continue
+
+    // Normalized fields are compared through their shadow field
+    const keyFields = unique.keyFields ?? fields
+    const keyValues = keyFields.map((field) => (data as any)[field])
+
+    // Soft-deleted records keep their values, but no longer hold the key.
+    // The index covers the key, then the filter fields.
+    const existing = await excludeSoftDeleted(table, ctx.db.query(table))
+      .withIndex(unique.index as any, (q) =>
+        whereFields.reduce(
+          (range: any, field) => range.eq(field, where[field]),
+          keyFields.reduce(
+            (range: any, field, i) => range.eq(field, keyValues[i]),
+            q
+          )
+        )
+      )
+      .first()
+
+    if (existing && (!excludeId || existing._id !== excludeId)) {
+      const fieldNames = fields.join(', ')
+      const fieldValues = values.map((value) => \`'\${value}'\`).join(', ')
+      const isComposite = unique.fields.length > 1
+      const filter = Object.entries(where)
+        .map(([field, value]) => \`\${field} = '\${value}'\`)
+        .join(', ')
+      const among = filter ? \` where \${filter}\` : ''
+      throw constraintError({
+        kind: 'unique',
+        message: isComposite
+          ? \`Unique constraint violation: (\${fieldNames}) (\${fieldValues}) already exists in \${table}\${among}\`
+          : \`Unique constraint violation: \${fieldNames} \${fieldValues} already exists in \${table}\${among}\`,
+        table,
+        field: isComposite ? fields : fields[0],
+        value: isComposite ? (values as Value[]) : (values[0] as Value),
+      })
+    }
+  }
+}
+
+// Helper to validate check constraints against the full document being written
+function validateCheckConstraints<T extends TableNames>(
+  table: T,
+  doc: Partial<WithoutSystemFields<Doc<T>>>
+) {
+  const constraints = TABLE_CONSTRAINTS[table]
+  if (!constraints || !constraints.checks?.length) return
+
+  for (const check of constraints.checks) {
+    if (!check.predicate(doc as WithoutSystemFields<Doc<T>>)) {
+      throw constraintError({
+        kind: 'check',
+        message: \`Check constraint violation: \${check.name} failed for \${table}\`,
+        table,
+        constraint: check.name,
+      })
+    }
+  }
+}
+
+// Array foreign keys can't be looked up through an index on the field, so every id
+// they hold is also stored as a row of REFS_TABLE, indexed by the referenced id
+async function findArrayReferences(
+  ctx: QueryCtx,
+  table: TableNames,
+  field: string,
+  targetId: Id<any>
+): Promise<Doc<any>[]> {
+  const refs = await ctx.db
+    .query(REFS_TABLE)
+    .withIndex('by_target' as any, (q: any) =>
+      q.eq('targetId', targetId).eq('table', table).eq('field', field)
+    )
+    .collect()
+  const docs = await Promise.all(
+    refs.map((ref: any) => ctx.db.get(ref.docId as Id<any>))
+  )
+  return docs.filter((doc) => doc !== null)
+}
+
+// Helper to keep the REFS_TABLE rows of a record in step with its array foreign keys,
+// after it was written or deleted
+async function syncArrayRefs(ctx: MutationCtx, table: TableNames, id: Id<any>) {
+  const relations = TABLE_CONSTRAINTS[table]?.relations?.filter(
+    (relation) => relation.array
+  )
+  if (!relations?.length) return
+
+  const doc: Record<string, any> | null = await ctx.db.get(id)
+  for (const relation of relations) {
+    const field = String(relation.field)
+    const missing = new Set<string>(doc?.[field] ?? [])
+
+    const refs = await ctx.db
+      .query(REFS_TABLE)
+      .withIndex('by_doc' as any, (q: any) =>
+        q.eq('docId', id).eq('field', field)
+      )
+      .collect()
+    for (const ref of refs as any[]) {
+      if (missing.has(ref.targetId)) {
+        missing.delete(ref.targetId)
+      } else {
+        await ctx.db.delete(ref._id)
+      }
+    }
+
+    for (const targetId of missing) {
+      await ctx.db.insert(REFS_TABLE, {
+        table,
+        field,
+        docId: id,
+        targetId,
+      } as any)
+    }
+  }
+}
+
+// Helper to validate relation constraints
+// When changedFields is given, only relations on one of them are checked.
+// Records in deleted are treated as missing, like those a delete is about to remove.
+async function validateRelationConstraints<T extends TableNames>(
+  ctx: QueryCtx,
+  table: T,
+  data: Partial<WithoutSystemFields<Doc<T>>>,
+  changedFields?: string[],
+  deleted?: Set<string>
+) {
+  const constraints = TABLE_CONSTRAINTS[table]
+  if (!constraints || !constraints.relations?.length) return
+
+  for (const relation of constraints.relations) {
+    if (changedFields && !changedFields.includes(String(relation.field))) {
+      continue
+    }
+
+    const fieldValue = data[relation.field]
+
+    // A missing or null foreign key references nothing, like NULL in SQL,
+    // when the field's validator allows it
+    if (
+      (fieldValue === undefined && relation.optional) ||
+      (fieldValue === null && relation.nullable)
+    ) {
+      continue
+    }
+
+    // A polymorphic foreign key has a relation per target table. Its id is checked by
+    // the relation for the table it belongs to, and rejected when it belongs to none.
+    if (relation.polymorphic) {
+      const targets = constraints.relations.filter(
+        (r) => r.polymorphic && r.field === relation.field
+      )
+      const owner = targets.find(
+        (r) =>
+          typeof fieldValue === 'string' &&
+          ctx.db.normalizeId(r.targetTable, fieldValue) !== null
+      )
+
+      if (owner !== relation) {
+        if (owner || relation !== targets[0]) continue
+        throw constraintError({
+          kind: 'foreignKey',
+          message: \`Foreign key constraint violation: '\${fieldValue}' is not an id of \${targets.map((r) => r.targetTable).join(', ')}\`,
+          table,
+          field: String(relation.field),
+          value: fieldValue as Value,
+          relatedTable: relation.targetTable,
+        })
+      }
+    }
+
+    // Every element of an array foreign key references a record
+    const values = relation.array
+      ? ((fieldValue ?? []) as unknown[])
+      : [fieldValue]
+
+    for (const value of values) {
+      // if the target field is not set, related field is the _id of the table
+      let target: unknown
+      if (value === undefined || value === null) {
+        // Not allowed by the validator, so reported as a missing reference
+        target = null
+      } else if (!relation.targetField) {
+        const doc = await ctx.db.get(value as unknown as Id<T>)
+        // A soft-deleted record can't be referenced
+        target = doc && !isSoftDeleted(relation.targetTable, doc) ? doc : null
+      } else {
+        const idxName = \`convex_sql_\${String(relation.targetField)}\`
+        target = await excludeSoftDeleted(
+          relation.targetTable,
+          ctx.db.query(relation.targetTable)
+        )
+          .withIndex(idxName as any, (q) =>
+            q.eq(String(relation.targetField), value)
+          )
+          .first()
+      }
+      if (target && deleted?.has((target as Doc<any>)._id)) target = null
+
+      if (!target) {
+        throw constraintError({
+          kind: 'foreignKey',
+          message: \`Foreign key constraint violation: \${relation.targetTable} with \${relation.targetField ? String(relation.targetField) : 'id'} '\${value}' does not exist\`,
+          table,
+          field: String(relation.field),
+          value: value as Value,
+          relatedTable: relation.targetTable,
+          ...(relation.targetField
+            ? { relatedField: String(relation.targetField) }
+            : {}),
+        })
+      }
+    }
+  }
+}
+
+// Helper to collect the onUpdate actions triggered when a referenced value changes.
+// Only relations using a targetField can be affected, since _id never changes.
+async function collectUpdateActions<T extends TableNames>(
+  ctx: MutationCtx,
+  table: T,
+  oldDoc: Doc<T>,
+  newDoc: Partial<WithoutSystemFields<Doc<T>>>,
+  updates: Array<{ id: Id<any>; field: string; value: unknown }>
+) {
+  for (const [sourceTable, constraints] of Object.entries(TABLE_CONSTRAINTS)) {
+    if (!constraints?.relations?.length) continue
+
+    for (const relation of constraints.relations) {
+      if (relation.targetTable !== table || !relation.targetField) continue
+
+      const oldValue = oldDoc[relation.targetField]
+      const newValue = newDoc[relation.targetField]
+      // Nothing references a missing or null value
+      if (oldValue === newValue || oldValue === undefined || oldValue === null) {
+        continue
+      }
+
+      // Soft-deleted records follow too, so they still reference the record once restored
+      const idxName = \`convex_sql_\${String(relation.field)}\`
+      const relatedRecords: Doc<any>[] = await ctx.db
+        .query(sourceTable as TableNames)
+        .withIndex(idxName as any, (q) =>
+          q.eq(String(relation.field), oldValue)
+        )
+        .collect()
+      if (relatedRecords.length === 0) continue
+
+      switch (relation.onUpdate) {
+        case 'cascade':
+          // Point the related records at the new value, following any relations that target them in turn
+          for (const record of relatedRecords) {
+            const field = String(relation.field)
+            updates.push({ id: record._id, field, value: newValue })
+            await collectUpdateActions(
+              ctx,
+              sourceTable as TableNames,
+              record,
+              { ...record, [field]: newValue },
+              updates
+            )
+          }
+          break
+
+        case 'setNull':
+          // Set foreign key to optional field must be of v.optional()
+          for (const record of relatedRecords) {
+            updates.push({
+              id: record._id,
+              field: String(relation.field),
+              value: undefined,
+            })
+          }
+          break
+
+        case 'setDefault': {
+          const field = String(relation.field)
+          const value = getDefaultValue(sourceTable as TableNames, field)
+          await validateRelationConstraints(
+            ctx,
+            sourceTable as TableNames,
+            { [field]: value },
+            [field]
+          )
+          for (const record of relatedRecords) {
+            updates.push({ id: record._id, field, value })
+          }
+          break
+        }
+
+        case 'restrict':
+        default:
+          // Prevent the update if related records still reference the old value
+          throw constraintError({
+            kind: 'restrict',
+            message: \`Cannot update: \${relatedRecords.length} related \${sourceTable} record(s) reference \${table}.\${String(relation.targetField)} '\${oldValue}'\`,
+            table,
+            relatedTable: sourceTable,
+            field: String(relation.field),
+            value: oldValue as Value,
+            count: relatedRecords.length,
+          })
+      }
+    }
+  }
+}
+
+// Helper to handle cascade/restrict/setNull on update of a referenced value
+async function handleUpdateConstraints<T extends TableNames>(
+  ctx: MutationCtx,
+  table: T,
+  oldDoc: Doc<T>,
+  newDoc: Partial<WithoutSystemFields<Doc<T>>>
+) {
+  // Collect every action first so a restrict violation aborts before anything is written
+  const updates: Array<{ id: Id<any>; field: string; value: unknown }> = []
+  await collectUpdateActions(ctx, table, oldDoc, newDoc, updates)
+
+  // Combine the updates of each record into one patch
+  const patches = new Map<Id<any>, Record<string, unknown>>()
+  for (const update of updates) {
+    patches.set(update.id, {
+      ...patches.get(update.id),
+      [update.field]: update.value,
+    })
+  }
+
+  // Validate the patches like wrapped patches before the first is written. Relations
+  // aren't checked again: cascaded values reference the record being updated, and
+  // defaults were checked when the actions were collected.
+  const writes: Array<{ table: TableNames; id: Id<any>; value: object }> = []
+  for (const [id, update] of patches) {
+    const table = getTableName(ctx, id)
+    const existing = await ctx.db.get(id)
+    if (!existing) continue
+
+    const value = await applyManagedFields(
+      ctx,
+      table,
+      applyNormalized(table, update, true),
+      existing
+    )
+    const merged = { ...existing, ...value }
+    validateCheckConstraints(table, merged)
+    await validateUniqueConstraints(ctx, table, merged, id, Object.keys(update))
+    writes.push({ table, id, value })
+  }
+
+  for (const { table, id, value } of writes) {
+    await ctx.db.patch(id, value as any)
+    await syncArrayRefs(ctx, table, id)
+    await saveSequences(ctx, table, id)
+  }
+}
+
+type DeletePlan = {
+  // Whether the requested record is soft-deleted, which decides for every record in the plan
+  soft: boolean
+  // Every record that will be removed, the requested one first
+  deletes: Array<{ table: TableNames; id: Id<any> }>
+  // Foreign keys reset by setNull/setDefault on records that are kept
+  patches: Array<{
+    table: TableNames
+    id: Id<any>
+    field: string
+    value: unknown
+    action: 'setNull' | 'setDefault'
+  }>
+  // Records whose restrict rule blocks the delete
+  restricted: Array<{
+    table: TableNames
+    field: string
+    ids: Id<any>[]
+    // The record being deleted and the value its children reference
+    targetTable: TableNames
+    targetValue: unknown
+  }>
+}
+
+// Helper to plan a delete without writing anything. Walks the relation graph
+// depth-first, applying each child table's own onDelete rule. Records that are
+// already planned for deletion are skipped, so cycles and self-references terminate.
+// A soft-deleted record is kept, so nothing referencing it is destroyed: cascade
+// only soft-deletes children in soft-delete tables, and setNull/setDefault leave
+// foreign keys as they are, ready for a restore. A hard delete removes every
+// dependent, soft-deleted or in a soft-delete table alike, so no foreign key dangles.
+async function planDelete<T extends TableNames>(
+  ctx: QueryCtx,
+  table: T,
+  id: Id<T>,
+  plan: DeletePlan = {
+    soft: TABLE_CONSTRAINTS[table]?.softDelete !== undefined,
+    deletes: [],
+    patches: [],
+    restricted: [],
+  },
+  deleting: Set<string> = new Set()
+): Promise<DeletePlan> {
+  if (deleting.has(id)) return plan
+
+  const doc = await ctx.db.get(id)
+  // A soft-deleted record is deleted already, and keeps its deletion time
+  if (!doc || (plan.soft && isSoftDeleted(table, doc))) {
+    throw notFoundError(table, id)
+  }
+
+  deleting.add(id)
+  plan.deletes.push({ table, id })
+  const soft = plan.soft
+
+  // Find all tables that reference this record
+  for (const [sourceTable, constraints] of Object.entries(TABLE_CONSTRAINTS)) {
+    if (!constraints?.relations?.length) continue
+
+    for (const relation of constraints.relations) {
+      if (relation.targetTable !== table) continue
+
+      // if the target field is not set, related field is the _id of the table
+      const targetValue = relation.targetField
+        ? doc[relation.targetField as keyof Doc<T>]
+        : id
+      // Nothing references a missing or null value
+      if (targetValue === undefined || targetValue === null) continue
+
+      const field = String(relation.field)
+      const idxName = \`convex_sql_\${field}\`
+      const relatedRecords: Doc<any>[] = (
+        relation.array
+          ? await findArrayReferences(ctx, sourceTable as TableNames, field, id)
+          : await ctx.db
+              .query(sourceTable as any)
+              .withIndex(idxName as any, (q) => q.eq(field, targetValue))
+              .collect()
+      ).filter((record: Doc<any>) => !deleting.has(record._id))
+      if (relatedRecords.length === 0) continue
+
+      // Soft-deleted children still reference this record, so a hard delete
+      // deletes, updates or counts them like any other
+      const liveRecords = relatedRecords.filter(
+        (record) => !isSoftDeleted(sourceTable as TableNames, record)
+      )
+      const childSoft = TABLE_CONSTRAINTS[sourceTable as TableNames]?.softDelete
+
+      switch (relation.onDelete) {
+        case 'cascade':
+          // Delete all related records, recursively handling their own relations.
+          // A soft delete leaves soft-deleted ones as they were deleted.
+          for (const record of soft ? liveRecords : relatedRecords) {
+            if (soft && childSoft === undefined) continue
+            await planDelete(
+              ctx,
+              sourceTable as TableNames,
+              record._id,
+              plan,
+              deleting
+            )
+          }
+          break
+
+        case 'setNull':
+          if (soft) break
+          // Set foreign key to optional field must be of v.optional()
+          for (const record of relatedRecords) {
+            // An array foreign key only loses this id, on top of earlier removals from the same record
+            const pending = relation.array
+              ? plan.patches.find(
+                  (patch) => patch.id === record._id && patch.field === field
+                )
+              : undefined
+            const value = relation.array
+              ? ((pending ? pending.value : record[field]) as Id<any>[]).filter(
+                  (element) => element !== id
+                )
+              : undefined
+
+            if (pending) {
+              pending.value = value
+            } else {
+              plan.patches.push({
+                table: sourceTable as TableNames,
+                id: record._id,
+                field,
+                value,
+                action: 'setNull',
+              })
+            }
+          }
+          break
+
+        case 'setDefault': {
+          if (soft) break
+          // Reset the foreign key to its default, which must itself reference an existing record.
+          // Whether that record survives the delete is checked once the plan is complete.
+          const value = getDefaultValue(sourceTable as TableNames, field)
+          await validateRelationConstraints(
+            ctx,
+            sourceTable as TableNames,
+            { [field]: value },
+            [field]
+          )
+          for (const record of relatedRecords) {
+            plan.patches.push({
+              table: sourceTable as TableNames,
+              id: record._id,
+              field,
+              value,
+              action: 'setDefault',
+            })
+          }
+          break
+        }
+
+        case 'restrict':
+        default:
+          // Default behavior is restrict
+          // Only live children block a soft delete, which can be undone
+          if (soft && liveRecords.length === 0) break
+          plan.restricted.push({
+            table: sourceTable as TableNames,
+            field,
+            ids: (soft ? liveRecords : relatedRecords).map(
+              (record) => record._id
+            ),
+            targetTable: table,
+            targetValue,
+          })
+          break
+      }
+    }
+  }
+
+  return plan
+}
+
+// Helper to settle a plan once the whole graph is known: drop restricted or patched
+// records that are deleted by another path, and restrict the setDefault actions
+// whose default references a record the delete removes
+async function finalizeDeletePlan(
+  ctx: QueryCtx,
+  plan: DeletePlan
+): Promise<DeletePlan> {
+  const deleted = new Set<string>(plan.deletes.map(({ id }) => id))
+  const patches = plan.patches.filter(({ id }) => !deleted.has(id))
+  const restricted = plan.restricted
+    .map((restriction) => ({
+      ...restriction,
+      ids: restriction.ids.filter((id) => !deleted.has(id)),
+    }))
+    .filter((restriction) => restriction.ids.length > 0)
+
+  // Each default was checked to exist when planned, so a failing check here
+  // means the record it references is deleted along the way
+  const defaults = patches.filter((patch) => patch.action === 'setDefault')
+  const checked = new Set<string>()
+  for (const { table, field, value } of defaults) {
+    if (checked.has(\`\${table}.\${field}\`)) continue
+    checked.add(\`\${table}.\${field}\`)
+    try {
+      await validateRelationConstraints(
+        ctx,
+        table,
+        { [field]: value },
+        [field],
+        deleted
+      )
+    } catch (error) {
+      if (!isConvexSqlError(error) || error.data.kind !== 'foreignKey') {
+        throw error
+      }
+      restricted.push({
+        table,
+        field,
+        ids: defaults
+          .filter((patch) => patch.table === table && patch.field === field)
+          .map((patch) => patch.id),
+        targetTable: error.data.relatedTable as TableNames,
+        targetValue: value,
+      })
+    }
+  }
+
+  return {
+    soft: plan.soft,
+    deletes: plan.deletes,
+    patches,
+    restricted,
+  }
+}
+
+// Helper to handle cascade/restrict/setNull/setDefault on delete.
+// Everything is planned before the first write, so a restrict violation
+// anywhere in the graph leaves the database untouched.
+async function handleDeleteConstraints<T extends TableNames>(
+  ctx: MutationCtx,
+  targetTable: T,
+  targetId: Id<T>
+): Promise<{ deleted: Partial<Record<TableNames, number>> }> {
+  const plan = await finalizeDeletePlan(
+    ctx,
+    await planDelete(ctx, targetTable, targetId)
+  )
+
+  const [restriction] = plan.restricted
+  if (restriction) {
+    throw constraintError({
+      kind: 'restrict',
+      message: \`Cannot delete: \${restriction.ids.length} related \${restriction.table} record(s) exist\`,
+      table: restriction.targetTable,
+      relatedTable: restriction.table,
+      field: restriction.field,
+      value: restriction.targetValue as Value,
+      count: restriction.ids.length,
+    })
+  }
+
+  for (const patch of plan.patches) {
+    await ctx.db.patch(
+      patch.id,
+      applyNormalized(patch.table, { [patch.field]: patch.value }, true) as any
+    )
+    await syncArrayRefs(ctx, patch.table, patch.id)
+  }
+
+  // A soft delete keeps its records, all stamped with the time of this delete.
+  // Their REFS_TABLE rows stay too, so restoring them needs no bookkeeping.
+  const deletedAt = Date.now()
+  const deleted: Partial<Record<TableNames, number>> = {}
+  for (const { table, id } of plan.deletes) {
+    const softDelete = plan.soft
+      ? TABLE_CONSTRAINTS[table]?.softDelete
+      : undefined
+    if (softDelete) {
+      await ctx.db.patch(id, { [softDelete]: deletedAt } as any)
+    } else {
+      await ctx.db.delete(id)
+      await syncArrayRefs(ctx, table, id)
+    }
+    deleted[table] = (deleted[table] ?? 0) + 1
+  }
+
+  return { deleted }
+}
+
+// Helper to load one relation of a document, through the indexes created for relations.
+// Soft-deleted records are left out like in queries, whichever way they are reached.
+async function loadRelation(
+  ctx: QueryCtx,
+  doc: Record<string, any>,
+  relation: RelationMeta,
+  cache: Map<unknown, unknown>
+) {
+  // A polymorphic foreign key can reference any of its tables
+  const live = (related: Doc<any> | null) =>
+    related &&
+    !isSoftDeleted(
+      relation.tables ? getTableName(ctx, related._id) : relation.table,
+      related
+    )
+      ? related
+      : null
+
+  if (relation.array && relation.type === 'many') {
+    const related = await findArrayReferences(
+      ctx,
+      relation.table,
+      relation.field,
+      doc._id
+    )
+    return related.filter((doc) => !isSoftDeleted(relation.table, doc))
+  }
+
+  if (relation.array) {
+    const ids: Id<any>[] = doc[relation.field] ?? []
+    const related = await Promise.all(
+      ids.map(async (id) => {
+        if (!cache.has(id)) {
+          cache.set(id, live(await ctx.db.get(id)))
+        }
+        return cache.get(id)
+      })
+    )
+    return related.filter((doc) => doc !== null)
   }
+
+  if (relation.type === 'manyToMany') {
+    const links = await excludeSoftDeleted(
+      relation.through!,
+      ctx.db.query(relation.through!)
+    )
+      .withIndex(relation.index as any, (q) => q.eq(relation.field, doc._id))
+      .collect()
+    const related = await Promise.all(
+      links.map(async (link) =>
+        live(await ctx.db.get((link as any)[relation.throughField!]))
+      )
+    )
+    return related.filter((doc) => doc !== null)
+  }
+
+  if (relation.type === 'many') {
+    const value = relation.targetField ? doc[relation.targetField] : doc._id
+    if (value === undefined || value === null) return []
+    return await excludeSoftDeleted(relation.table, ctx.db.query(relation.table))
+      .withIndex(relation.index as any, (q) => q.eq(relation.field, value))
+      .collect()
+  }
+
+  const value = doc[relation.field]
+  if (value === undefined || value === null) return null
+  if (cache.has(value)) return cache.get(value)
+
+  const related = relation.targetField
+    ? await excludeSoftDeleted(relation.table, ctx.db.query(relation.table))
+        .withIndex(relation.index as any, (q) =>
+          q.eq(relation.targetField!, value)
+        )
+        .first()
+    : live(await ctx.db.get(value as Id<any>))
+
+  cache.set(value, related)
+  return related
 }
-    `
-    const staticWrapperCode = `
-    // STATIC WRAPPER CODE... WILL NOT BE REGENERATED EVERY TIME.
 
-// Validation helper functions
-// Helper to validate unique constraints
-async function validateUniqueConstraints<T extends TableNames>(
+// Helper to load the relations selected with .with() onto query results
+async function loadRelations<T extends TableNames, I>(
   ctx: QueryCtx,
   table: T,
-  data: Partial<WithoutSystemFields<Doc<T>>>,
-  excludeId?: Id<T>
-) {
-  const constraints = TABLE_CONSTRAINTS[table]
-  if (!constraints || !constraints.unique?.length) return
+  docs: Doc<T>[],
+  include: I
+): Promise<WithRelations<T, I>[]> {
+  const relations: Record<string, RelationMeta> =
+    (TABLE_RELATIONS as Record<string, Record<string, RelationMeta>>)[table] ??
+    {}
+  const loaded: Record<string, any>[] = docs.map((doc) => ({ ...doc }))
 
-  for (const field of constraints.unique) {
-    const fieldValue = data[field]
-    if (fieldValue !== undefined) {
-      const existing = await ctx.db
-        .query(table)
-        .withIndex(\`convex_sql_\${String(field)}\`, (q) =>
-          q.eq(String(field), fieldValue)
-        )
-        .first()
+  for (const [name, selected] of Object.entries(include as object)) {
+    if (!selected) continue
 
-      if (existing && (!excludeId || existing._id !== excludeId)) {
-        throw new Error(
-          \`Unique constraint violation: \$\{String(field)\} '\$\{fieldValue\}' already exists in \$\{table\}\`
-        )
-      }
+    const relation = relations[name]
+    if (!relation) {
+      throw new Error(\`Unknown relation '\${name}' on \${table}\`)
+    }
+
+    // Documents often share a parent, so load each one once
+    const cache = new Map<unknown, unknown>()
+    for (const doc of loaded) {
+      doc[name] = await loadRelation(ctx, doc, relation, cache)
     }
   }
+
+  return loaded as WithRelations<T, I>[]
 }
 
-// Helper to validate relation constraints
-async function validateRelationConstraints<T extends TableNames>(
+// Helper behind the generated get<Name>/list<InverseName> accessors of named relations
+async function loadNamedRelation<
+  T extends TableNames & keyof TableRelations,
+  K extends keyof TableRelations[T],
+>(
   ctx: QueryCtx,
   table: T,
-  data: Partial<WithoutSystemFields<Doc<T>>>
-) {
-  const constraints = TABLE_CONSTRAINTS[table]
-  if (!constraints || !constraints.relations?.length) return
+  name: K,
+  doc: Doc<T>
+): Promise<RelatedDocs<TableRelations[T][K]>> {
+  const relation = (
+    TABLE_RELATIONS as Record<string, Record<string, RelationMeta>>
+  )[table][name as string]
+  return (await loadRelation(ctx, doc, relation, new Map())) as RelatedDocs<
+    TableRelations[T][K]
+  >
+}
 
-  for (const relation of constraints.relations) {
-    const value = data[relation.field]
+// The context behind each wrapped db, so helpers can be called with either
+const rawContexts = new WeakMap<object, MutationCtx>()
 
-    // if the target field is not set, related field is the _id of the table
-    if (!relation.targetField) {
-      const target = await ctx.db.get(value as unknown as Id<T>)
-      if (!target) {
-        throw new Error(
-          \`Foreign key constraint violation: \$\{relation.targetTable\} with id '\$\{value\}' does not exist\`
-        )
-      }
-    } else {
-      const idxName = \`convex_sql_\${String(relation.targetField)}\`
-      const target = await ctx.db
-        .query(relation.targetTable)
-        .withIndex(idxName as any, (q) =>
-          q.eq(String(relation.targetField), value)
-        )
-        .first()
-      if (!target) {
-        throw new Error(
-          \`Foreign key constraint violation: \$\{relation.targetTable\} with id '\$\{value\}' does not exist\`
-        )
-      }
-    }
-  }
+// A mutation context, with or without its db wrapped by withConstraints
+type AnyMutationCtx = Omit<MutationCtx, 'db'> & { db: object }
+
+function getRawContext(ctx: AnyMutationCtx): MutationCtx {
+  return rawContexts.get(ctx.db) ?? (ctx as MutationCtx)
 }
 
-// Helper to handle cascade/restrict on delete
-async function handleDeleteConstraints<T extends TableNames>(
-  ctx: MutationCtx,
-  targetTable: T,
-  targetId: Id<T>
+// Helper to find the join row of a many-to-many link, through the index of its unique key
+async function findLink(
+  ctx: QueryCtx,
+  table: TableNames,
+  name: string,
+  id: Id<any>,
+  targetId: Id<any>
 ) {
-  // Find all tables that reference this record
-  for (const [sourceTable, constraints] of Object.entries(TABLE_CONSTRAINTS)) {
-    if (!constraints?.relations?.length) continue
+  const relation = (
+    TABLE_RELATIONS as Record<string, Record<string, RelationMeta>>
+  )[table][name]
+  const { field, throughField } = relation as Required<RelationMeta>
 
-    for (const relation of constraints.relations) {
-      let relatedRecords: Doc<T>[] = []
-      if (relation.targetField) {
-        const target = await ctx.db.get(targetId as unknown as Id<T>)
-        if (!target) {
-          throw new Error(\`Item to delete does not exist\`)
-        }
-        const targetValue = target[relation.targetField]
-        const idxName = \`convex_sql_\${String(relation.field)}\`
-        relatedRecords = await ctx.db
-          .query(sourceTable as any)
-          .withIndex(idxName as any, (q) =>
-            q.eq(String(relation.field), targetValue)
-          )
-          .collect()
-      } else if (relation.targetTable === targetTable) {
-        const idxName = \`convex_sql_\${String(relation.field)}\`
-        relatedRecords = await ctx.db
-          .query(sourceTable as any)
-          .withIndex(idxName as any, (q) =>
-            q.eq(String(relation.field), targetId)
-          )
-          .collect()
-      }
-      if (relatedRecords.length === 0) continue
+  return await excludeSoftDeleted(relation.through!, ctx.db.query(relation.through!))
+    .withIndex(\`convex_sql_\${field}_\${throughField}\` as any, (q: any) =>
+      q.eq(field, id).eq(throughField, targetId)
+    )
+    .unique()
+}
 
-      switch (relation.onDelete) {
-        case 'cascade':
-          // Delete all related records (this will recursively handle cascades)
-          for (const record of relatedRecords) {
-            await ctx.db.delete(record._id)
-          }
-          throw new Error(
-            \`Cannot delete: \$\{relatedRecords.length\} related \$\{sourceTable\} record(s) exist\`
-          )
+// Helpers behind the generated link<Name>/unlink<Name> accessors of many-to-many links.
+// Join rows go through the constraints like any other insert or delete, throwing on violations.
+async function linkManyToMany(
+  anyCtx: AnyMutationCtx,
+  table: TableNames,
+  name: string,
+  id: Id<any>,
+  targetId: Id<any>
+): Promise<Id<any>> {
+  const ctx = getRawContext(anyCtx)
+  const link = await findLink(ctx, table, name, id, targetId)
+  if (link) return link._id
 
-        case 'restrict':
-          // Prevent deletion if related records exist
-          throw new Error(
-            \`Cannot delete: \$\{relatedRecords.length\} related \$\{sourceTable\} record(s) exist\`
-          )
+  const relation = (
+    TABLE_RELATIONS as Record<string, Record<string, RelationMeta>>
+  )[table][name]
+  return await constrainedDb(ctx, ctx.db).insert(relation.through!, {
+    [relation.field]: id,
+    [relation.throughField!]: targetId,
+  } as any)
+}
 
-        case 'setNull':
-          // Set foreign key to optional field must be of v.optional()
-          for (const record of relatedRecords) {
-            await ctx.db.patch(record._id, {
-              [relation.field]: undefined,
-            } as any)
-          }
-          break
+async function unlinkManyToMany(
+  anyCtx: AnyMutationCtx,
+  table: TableNames,
+  name: string,
+  id: Id<any>,
+  targetId: Id<any>
+): Promise<boolean> {
+  const ctx = getRawContext(anyCtx)
+  const link = await findLink(ctx, table, name, id, targetId)
+  if (!link) return false
 
-        default:
-          // Default behavior is restrict
-          throw new Error(
-            \`Cannot delete: \$\{relatedRecords.length\} related \$\{sourceTable\} record(s) exist\`
-          )
-      }
-    }
+  await constrainedDb(ctx, ctx.db).delete(link._id)
+  return true
+}
+
+/**
+ * Query returned by .with(), which loads the selected relations onto every result.
+ * Chain withIndex/order/filter on it as on a regular query; the types only
+ * offer the methods Convex allows at the current stage.
+ */
+function relationalQuery<T extends TableNames, I>(
+  ctx: QueryCtx,
+  table: T,
+  query: any,
+  include: I
+): RelationalQueryInitializer<T, I> {
+  const load = (docs: Doc<T>[]) => loadRelations(ctx, table, docs, include)
+
+  return {
+    withIndex: (indexName, indexRange) =>
+      relationalQuery(ctx, table, query.withIndex(indexName, indexRange), include),
+    fullTableScan: () =>
+      relationalQuery(ctx, table, query.fullTableScan(), include),
+    order: (order) =>
+      relationalQuery(ctx, table, query.order(order), include),
+    filter: (predicate) =>
+      relationalQuery(ctx, table, query.filter(predicate), include),
+    collect: async () => await load(await query.collect()),
+    take: async (n) => await load(await query.take(n)),
+    first: async () => {
+      const doc = await query.first()
+      return doc ? (await load([doc]))[0] : null
+    },
+    unique: async () => {
+      const doc = await query.unique()
+      return doc ? (await load([doc]))[0] : null
+    },
+    paginate: async (paginationOpts) => {
+      const result = await query.paginate(paginationOpts)
+      return { ...result, page: await load(result.page) }
+    },
   }
 }
 
+// Helper to add .with() to a query and to every query chained from it.
+// The original methods are read first, so re-wrapping a query that chains
+// onto itself doesn't recurse.
+function withRelationLoading(ctx: QueryCtx, table: TableNames, query: any): any {
+  const { withIndex, fullTableScan, order, filter } = query
+  const chained =
+    (method: (...args: any[]) => any) =>
+    (...args: any[]) =>
+      withRelationLoading(ctx, table, method.apply(query, args))
+
+  return Object.assign(query, {
+    ...(withIndex && { withIndex: chained(withIndex) }),
+    ...(fullTableScan && { fullTableScan: chained(fullTableScan) }),
+    ...(order && { order: chained(order) }),
+    ...(filter && { filter: chained(filter) }),
+    with: (include: any) => relationalQuery(ctx, table, query, include),
+  })
+}
+
 /**
- * Database wrapper that enforces constraints on insert, replace, and delete operations
+ * Database reader whose queries support .with() to load related documents:
+ * ctx.db.query('documents').with({ user: true }).collect()
+ * ctx.db.query('documents').withIndex('by_user', ...).with({ user: true }).collect()
+ *
+ * Queries on soft-delete tables leave soft-deleted records out, unless they
+ * start with .includeDeleted()
  */
-function wrapDb(ctx: MutationCtx, db: GenericDatabaseWriter<DataModel>) {
+function relationalDb(ctx: QueryCtx, db: GenericDatabaseReader<DataModel>) {
+  return {
+    ...db,
+
+    query: <TableName extends TableNames>(table: TableName) => {
+      const withRelations = (
+        query: QueryInitializer<NamedTableInfo<DataModel, TableName>>
+      ): QueryInitializerWithRelations<TableName> =>
+        withRelationLoading(ctx, table, query)
+
+      const query = db.query(table)
+      return Object.assign(withRelations(excludeSoftDeleted(table, query)), {
+        includeDeleted: () => withRelations(query),
+      })
+    },
+  }
+}
+
+/**
+ * Database writer that enforces constraints on insert, replace, patch, and delete operations.
+ * Keeps Convex's native signatures: a violation throws a ConvexError, aborting the transaction.
+ */
+function constrainedDb(ctx: MutationCtx, db: GenericDatabaseWriter<DataModel>) {
   return {
     ...db,
 
     /**
-     * Insert with constraint validation
+     * Query with .with() to load related documents
+     */
+    query: relationalDb(ctx, db).query,
+
+    /**
+     * Insert with defaults applied and constraint validation
      */
     insert: async <TableName extends TableNamesInDataModel<DataModel>>(
       table: TableName,
-      value: WithoutSystemFields<DocumentByName<DataModel, TableName>>
-    ): Promise<{
-      data: GenericId<TableName> | null
-      error: string | null
-    }> => {
+      value: InsertValue<TableName>
+    ): Promise<GenericId<TableName>> => {
       // Validate constraints before insert
-      try {
-        await validateUniqueConstraints(ctx, table, value)
-        await validateRelationConstraints(ctx, table, value)
-        const result = await db.insert(table, value)
-        return {
-          data: result,
-          error: null,
-        }
-      } catch (error) {
-        return {
-          data: null,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      }
+      const doc = await applyManagedFields(
+        ctx,
+        table,
+        applyNormalized(
+          table,
+          await applySequences(ctx, table, applyDefaults(table, value))
+        )
+      )
+      validateCheckConstraints(table, doc)
+      await validateUniqueConstraints(ctx, table, doc)
+      await validateRelationConstraints(ctx, table, doc)
+      const id = await db.insert(table, doc)
+      await syncArrayRefs(ctx, table, id)
+      await saveSequences(ctx, table, id)
+      return id
     },
 
     /**
-     * Replace (upsert) with constraint validation
+     * Replace with constraint validation
      */
     replace: async <TableName extends TableNamesInDataModel<DataModel>>(
       id: GenericId<TableName>,
-      value: WithOptionalSystemFields<DocumentByName<DataModel, TableName>>
-    ): Promise<{
-      data: GenericId<TableName> | null
-      error: string | null
-    }> => {
+      replacement: WithOptionalSystemFields<DocumentByName<DataModel, TableName>>
+    ): Promise<void> => {
       // Get the table name from the ID
-      const table = id.__tableName
+      const table = getTableName(ctx, id)
+      const existing = await db.get(id)
+      if (!existing) {
+        throw notFoundError(table, id)
+      }
+      const value = await applyManagedFields(
+        ctx,
+        table,
+        applyNormalized(table, replacement),
+        existing
+      )
 
       // For replace operations, we need to exclude the current record from unique checks
-      try {
-        await validateUniqueConstraints(ctx, table, value, id)
-        await validateRelationConstraints(ctx, table, value)
-        await db.replace(id, value)
-        return {
-          data: id,
-          error: null,
-        }
-      } catch (error) {
-        return {
-          data: null,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
+      validateCheckConstraints(table, value)
+      await validateUniqueConstraints(ctx, table, value, id)
+      await validateRelationConstraints(ctx, table, value)
+      await handleUpdateConstraints(ctx, table, existing, value)
+      await db.replace(id, value)
+      await syncArrayRefs(ctx, table, id)
+      await saveSequences(ctx, table, id)
+    },
+
+    /**
+     * Patch with constraint validation on the fields the patch changes
+     */
+    patch: async <TableName extends TableNamesInDataModel<DataModel>>(
+      id: GenericId<TableName>,
+      update: Partial<DocumentByName<DataModel, TableName>>
+    ): Promise<void> => {
+      const table = getTableName(ctx, id)
+      const existing = await db.get(id)
+      if (!existing) {
+        throw notFoundError(table, id)
       }
+      const value = await applyManagedFields(
+        ctx,
+        table,
+        applyNormalized(table, update, true),
+        existing
+      )
+
+      // Only fields whose value actually changes need to be re-validated
+      const changedFields = Object.keys(value).filter(
+        (field) => (value as any)[field] !== (existing as any)[field]
+      )
+      // Composite unique keys are checked against the document as it will be after the patch
+      const merged = { ...existing, ...value }
+      // A restored record is checked in full, as its values may be taken or gone by now
+      const restored = isSoftDeleted(table, existing) && !isSoftDeleted(table, merged)
+      const checkedFields = restored ? undefined : changedFields
+
+      validateCheckConstraints(table, merged)
+      await validateUniqueConstraints(ctx, table, merged, id, checkedFields)
+      await validateRelationConstraints(ctx, table, merged, checkedFields)
+      await handleUpdateConstraints(ctx, table, existing, merged)
+      await db.patch(id, value)
+      await syncArrayRefs(ctx, table, id)
+      await saveSequences(ctx, table, id)
     },
 
     /**
      * Delete with cascade/restrict handling
      */
     delete: async (
-      table: TableNamesInDataModel<DataModel>,
       id: GenericId<TableNamesInDataModel<DataModel>>
-    ): Promise<{
-      data: GenericId<TableNamesInDataModel<DataModel>> | null
-      error: string | null
-    }> => {
-      // Handle cascade/restrict constraints before delete
-      try {
-        await handleDeleteConstraints(ctx, table, id)
-        await db.delete(id)
-        return { data: id, error: null }
-      } catch (error) {
-        return {
-          data: null,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }
-      }
+    ): Promise<void> => {
+      // Delete the record along with everything its relations cascade to
+      await handleDeleteConstraints(ctx, getTableName(ctx, id), id)
     },
   }
 }
 
+// Helper to turn a constraint violation into an error result
+async function toResult<T, Extra extends object = {}>(
+  operation: () => Promise<{ data: T } & Extra>,
+  empty: Extra
+): Promise<
+  | ({ data: T; error: null } & Extra)
+  | ({ data: null; error: ConvexSqlError } & Extra)
+> {
+  try {
+    return { ...(await operation()), error: null }
+  } catch (error) {
+    // Constraint violations are returned, anything else is rethrown
+    if (!isConvexSqlError(error)) throw error
+    return { ...empty, data: null, error: error.data }
+  }
+}
+
 /**
- * Create a mutation wrapper that injects the wrapped db
+ * Database wrapper that enforces constraints and returns violations as
+ * { data, error } results instead of throwing them
  */
-export function createMutationWithConstraints<
-  Visibility extends FunctionVisibility,
->(rawMutation: MutationBuilder<DataModel, Visibility>) {
+function wrapDb(ctx: MutationCtx, db: GenericDatabaseWriter<DataModel>) {
+  const constrained = constrainedDb(ctx, db)
+
+  return {
+    ...db,
+
+    /**
+     * Query with .with() to load related documents
+     */
+    query: constrained.query,
+
+    /**
+     * Insert with defaults applied and constraint validation
+     */
+    insert: <TableName extends TableNamesInDataModel<DataModel>>(
+      table: TableName,
+      value: InsertValue<TableName>
+    ) =>
+      toResult(
+        async () => ({ data: await constrained.insert(table, value) }),
+        {}
+      ),
+
+    /**
+     * Replace with constraint validation
+     */
+    replace: <TableName extends TableNamesInDataModel<DataModel>>(
+      id: GenericId<TableName>,
+      value: WithOptionalSystemFields<DocumentByName<DataModel, TableName>>
+    ) =>
+      toResult(async () => {
+        await constrained.replace(id, value)
+        return { data: id }
+      }, {}),
+
+    /**
+     * Patch with constraint validation on the fields the patch changes
+     */
+    patch: <TableName extends TableNamesInDataModel<DataModel>>(
+      id: GenericId<TableName>,
+      value: Partial<DocumentByName<DataModel, TableName>>
+    ) =>
+      toResult(async () => {
+        await constrained.patch(id, value)
+        return { data: id }
+      }, {}),
+
+    /**
+     * Delete with cascade/restrict handling, reporting what was removed
+     */
+    delete: (
+      table: TableNamesInDataModel<DataModel>,
+      id: GenericId<TableNamesInDataModel<DataModel>>
+    ) =>
+      toResult(
+        async () => {
+          const { deleted } = await handleDeleteConstraints(ctx, table, id)
+          return { data: id, deleted }
+        },
+        { deleted: null as Partial<Record<TableNames, number>> | null }
+      ),
+  }
+}
+
+export type DeletePreview = {
+  // Whether the delete would go through, i.e. no restrict rule blocks it
+  canDelete: boolean
+  // Number of records that would be removed per table, including the requested one
+  deleted: Partial<Record<TableNames, number>>
+  // Foreign keys that would be set to null or reset to their default
+  updated: Array<{
+    table: TableNames
+    field: string
+    action: 'setNull' | 'setDefault'
+    count: number
+  }>
+  // Restrict rules that would block the delete
+  blockedBy: Array<{ table: TableNames; field: string; count: number }>
+}
+
+/**
+ * Preview the impact of deleting a record without writing anything.
+ * Walks the relations exactly like the wrapped delete, so it can back a
+ * "this will also delete ..." confirmation in queries as well as mutations.
+ */
+export async function previewDelete<T extends TableNames>(
+  ctx: QueryCtx,
+  table: T,
+  id: Id<T>
+): Promise<DeletePreview> {
+  const plan = await finalizeDeletePlan(ctx, await planDelete(ctx, table, id))
+
+  const deleted: Partial<Record<TableNames, number>> = {}
+  for (const { table } of plan.deletes) {
+    deleted[table] = (deleted[table] ?? 0) + 1
+  }
+
+  const updated: DeletePreview['updated'] = []
+  for (const patch of plan.patches) {
+    const existing = updated.find(
+      (entry) =>
+        entry.table === patch.table &&
+        entry.field === patch.field &&
+        entry.action === patch.action
+    )
+    if (existing) {
+      existing.count++
+    } else {
+      updated.push({
+        table: patch.table,
+        field: patch.field,
+        action: patch.action,
+        count: 1,
+      })
+    }
+  }
+
+  return {
+    canDelete: plan.restricted.length === 0,
+    deleted,
+    updated,
+    blockedBy: plan.restricted.map((restriction) => ({
+      table: restriction.table,
+      field: restriction.field,
+      count: restriction.ids.length,
+    })),
+  }
+}
+
+/**
+ * Rebuild the REFS_TABLE rows of one page of a table's records. Records written
+ * before their array relation was declared, or through the raw ctx.db, have none,
+ * so deletes can't find them. Call it from a mutation, page after page, until isDone.
+ */
+export async function backfillArrayRefs<T extends TableNames>(
+  anyCtx: AnyMutationCtx,
+  table: T,
+  paginationOpts: PaginationOptions
+): Promise<{ isDone: boolean; continueCursor: string }> {
+  const ctx = getRawContext(anyCtx)
+  const { page, isDone, continueCursor } = await ctx.db
+    .query(table)
+    .paginate(paginationOpts)
+
+  for (const doc of page) {
+    await syncArrayRefs(ctx, table, doc._id)
+  }
+  return { isDone, continueCursor }
+}
+
+/**
+ * Set the shadow fields of normalized unique fields on one page of a table's records.
+ * Records written before the constraint was declared, or through the raw ctx.db,
+ * have none, so the constraint doesn't see them. Call it from a mutation, page
+ * after page, until isDone. Duplicates already in the table are left as they are.
+ */
+export async function backfillNormalized<T extends TableNames>(
+  anyCtx: AnyMutationCtx,
+  table: T,
+  paginationOpts: PaginationOptions
+): Promise<{ isDone: boolean; continueCursor: string }> {
+  const ctx = getRawContext(anyCtx)
+  const { page, isDone, continueCursor } = await ctx.db
+    .query(table)
+    .paginate(paginationOpts)
+
+  const normalized: Record<string, { field: string } | undefined> =
+    TABLE_CONSTRAINTS[table]?.normalized ?? {}
+  for (const doc of page) {
+    const value: Record<string, unknown> = applyNormalized(table, doc)
+    const changes: Record<string, unknown> = {}
+    for (const shadow of Object.values(normalized)) {
+      if (shadow && value[shadow.field] !== (doc as any)[shadow.field]) {
+        changes[shadow.field] = value[shadow.field]
+      }
+    }
+    if (Object.keys(changes).length) {
+      await ctx.db.patch(doc._id, changes as any)
+    }
+  }
+  return { isDone, continueCursor }
+}
+
+export type ConstraintOptions = {
+  /**
+   * How constraint violations surface in mutations:
+   * - 'result' (default): writes return { data, error } and never throw on a violation
+   * - 'throw': writes keep Convex's native signatures and throw a ConvexError,
+   *   aborting the mutation's transaction
+   */
+  errors?: 'result' | 'throw'
+}
+
+function mutationWithResults<Visibility extends FunctionVisibility>(
+  rawMutation: MutationBuilder<DataModel, Visibility>
+) {
+  return customMutation(
+    rawMutation,
+    customCtx(async (ctx) => {
+      const db = wrapDb(ctx, ctx.db)
+      rawContexts.set(db, ctx)
+      return { db }
+    })
+  )
+}
+
+function mutationWithThrows<Visibility extends FunctionVisibility>(
+  rawMutation: MutationBuilder<DataModel, Visibility>
+) {
   return customMutation(
     rawMutation,
+    customCtx(async (ctx) => {
+      const db = constrainedDb(ctx, ctx.db)
+      rawContexts.set(db, ctx)
+      return { db }
+    })
+  )
+}
+
+function queryWithRelations<Visibility extends FunctionVisibility>(
+  rawQuery: QueryBuilder<DataModel, Visibility>
+) {
+  return customQuery(
+    rawQuery,
     customCtx(async (ctx) => ({
-      db: wrapDb(ctx, ctx.db),
+      db: relationalDb(ctx, ctx.db),
     }))
   )
 }
 
+/**
+ * Create a query wrapper whose db supports .with() to load related documents
+ */
+export function createQueryWithRelations<
+  Visibility extends FunctionVisibility,
+>(rawQuery: QueryBuilder<DataModel, Visibility>) {
+  return queryWithRelations(rawQuery)
+}
+
+/**
+ * Create a mutation wrapper that injects the wrapped db
+ */
+export function createMutationWithConstraints<
+  Visibility extends FunctionVisibility,
+>(
+  rawMutation: MutationBuilder<DataModel, Visibility>,
+  options: { errors: 'throw' }
+): ReturnType<typeof mutationWithThrows<Visibility>>
+export function createMutationWithConstraints<
+  Visibility extends FunctionVisibility,
+>(
+  rawMutation: MutationBuilder<DataModel, Visibility>,
+  options?: { errors?: 'result' }
+): ReturnType<typeof mutationWithResults<Visibility>>
+export function createMutationWithConstraints<
+  Visibility extends FunctionVisibility,
+>(
+  rawMutation: MutationBuilder<DataModel, Visibility>,
+  options: ConstraintOptions = {}
+) {
+  return options.errors === 'throw'
+    ? mutationWithThrows(rawMutation)
+    : mutationWithResults(rawMutation)
+}
+
 /**
  * Export constraint-enforced mutation and query functions
  * Use these instead of importing from _generated/server
  */
 export function withConstraints<Visibility extends FunctionVisibility>(
   rawMutation: MutationBuilder<DataModel, Visibility>,
-  rawQuery: QueryBuilder<DataModel, Visibility>
+  rawQuery: QueryBuilder<DataModel, Visibility>,
+  options: { errors: 'throw' }
+): {
+  mutation: ReturnType<typeof mutationWithThrows<Visibility>>
+  query: ReturnType<typeof queryWithRelations<Visibility>>
+}
+export function withConstraints<Visibility extends FunctionVisibility>(
+  rawMutation: MutationBuilder<DataModel, Visibility>,
+  rawQuery: QueryBuilder<DataModel, Visibility>,
+  options?: { errors?: 'result' }
+): {
+  mutation: ReturnType<typeof mutationWithResults<Visibility>>
+  query: ReturnType<typeof queryWithRelations<Visibility>>
+}
+export function withConstraints<Visibility extends FunctionVisibility>(
+  rawMutation: MutationBuilder<DataModel, Visibility>,
+  rawQuery: QueryBuilder<DataModel, Visibility>,
+  options: ConstraintOptions = {}
 ) {
   return {
-    mutation: createMutationWithConstraints(rawMutation),
-    query: rawQuery,
+    mutation:
+      options.errors === 'throw'
+        ? mutationWithThrows(rawMutation)
+        : mutationWithResults(rawMutation),
+    query: queryWithRelations(rawQuery),
   }
 }
 
@@ -363,15 +2839,23 @@ export function withConstraints<Visibility extends FunctionVisibility>(
 
     return `
     ${importCode}
+    ${defaultedFieldsType}
     ${tableConstraintsType}
     ${tableConstraintsCode}
+    ${refsTableCode}
+    ${sequencesTableCode}
+    ${tableRelationsCode}
     ${staticWrapperCode}
+    ${relationHelpersCode}
     `
   }
 }
 
-export function generateConstraintCode(schema: SchemaMetadata): string {
-  const generator = new CodeGenerator(schema)
+export function generateConstraintCode(
+  schema: SchemaMetadata,
+  options: CodeGeneratorOptions = {}
+): string {
+  const generator = new CodeGenerator(schema, options)
   return generator.generateDbWrapper()
 }
 
@@ -384,9 +2868,30 @@ export function writeGeneratedCode(code: string, outputDir: string): void {
     mkdirSync(outputDir, { recursive: true })
   }
 
-  // Write only the database wrapper
   writeFileSync(
     join(outputDir, 'db.ts'),
     `// Auto-generated database wrapper with constraints\n// Do not edit manually\n\n${code}`
   )
 }
+
+/**
+ * Write tables.ts, holding the tables the generated code keeps its bookkeeping in,
+ * when the schema needs any. Runs before the code is generated, so the schema
+ * can import the file by the time codegen asks for it.
+ */
+export function writeTablesCode(
+  schema: SchemaMetadata,
+  outputDir: string
+): void {
+  const tables = getBookkeepingTables(schema)
+  if (!tables.length) return
+
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true })
+  }
+
+  writeFileSync(
+    join(outputDir, 'tables.ts'),
+    `// Auto-generated tables used by the database wrapper\n// Do not edit manually\n\n${getTablesCode(tables)}`
+  )
+}
@@ -1,3 +1,12 @@
-export { generateConstraintCode, writeGeneratedCode } from './codegen.js'
+export {
+  generateConstraintCode,
+  writeGeneratedCode,
+  writeTablesCode,
+} from './codegen.js'
 
 export { parseSchemaFile } from './parser.js'
+
+export { loadSchemaMetadata } from './loader.js'
+
+export { lintSchema } from './lint.js'
+export type { LintDiagnostic, LintRule } from './lint.js'
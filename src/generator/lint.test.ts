@@ -0,0 +1,49 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { lintSchema } from './lint'
+import { parseSchemaFile } from './parser'
+
+function lintSource(source: string) {
+  const dir = mkdtempSync(join(tmpdir(), 'convex-sql-lint-'))
+  try {
+    writeFileSync(join(dir, 'schema.ts'), source)
+    return lintSchema(parseSchemaFile(join(dir, 'schema.ts')))
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+describe('lintSchema', () => {
+  it('reports problems in the tables passed to defineSchema()', () => {
+    const diagnostics = lintSource(`
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Users = Table('users', { email: v.optional(v.string()) })
+  .constraints((c) => [c.unique('email')])
+
+export default defineSchema({ users: Users.toConvexTable() })
+`)
+
+    expect(diagnostics.map(({ rule }) => rule)).toEqual(['unique-optional'])
+  })
+
+  it('leaves out tables that are not part of the schema', () => {
+    const diagnostics = lintSource(`
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Users = Table('users', { email: v.string() })
+
+const Drafts = Table('drafts', { email: v.optional(v.string()) })
+  .constraints((c) => [c.unique('email')])
+
+export default defineSchema({ users: Users.toConvexTable() })
+`)
+
+    expect(diagnostics).toEqual([])
+  })
+})
@@ -0,0 +1,265 @@
+import type {
+  SchemaMetadata,
+  TableMetadata,
+  SourceLocation,
+} from '../core/types.js'
+import { AUTO_INDEX_PREFIX } from '../core/indexes.js'
+import { getFieldAtPath, isArrayField } from '../core/fields.js'
+import { getTargetRelations, type TargetRelation } from '../core/relations.js'
+
+export type LintRule =
+  | 'unknown-table'
+  | 'set-null-required'
+  | 'unique-optional'
+  | 'index-collision'
+  | 'delete-cycle'
+
+export interface LintDiagnostic {
+  rule: LintRule
+  message: string
+  location?: SourceLocation
+}
+
+interface RelationEdge {
+  table: TableMetadata
+  relation: TargetRelation
+}
+
+// Polymorphic relations are checked once per target table
+function getRelations(table: TableMetadata): TargetRelation[] {
+  return getTargetRelations(table.constraints)
+}
+
+// Whether a field is known to be required. Fields the parser couldn't read are not.
+function isRequired(table: TableMetadata, path: string): boolean {
+  const field = getFieldAtPath(table.fields, path)
+  return !!field && field.kind !== 'unknown' && !field.optional
+}
+
+/**
+ * Report relations that target tables missing from defineSchema(), and
+ * setNull actions on fields that cannot be cleared
+ */
+function lintRelations(tables: TableMetadata[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = []
+
+  for (const table of tables) {
+    for (const relation of getRelations(table)) {
+      const target = tables.find((t) => t.name === relation.targetTable)
+
+      if (!target?.exportKey) {
+        diagnostics.push({
+          rule: 'unknown-table',
+          message: `Relation '${table.name}.${relation.field}' targets '${relation.targetTable}', which is not part of defineSchema().`,
+          location: relation.location,
+        })
+      }
+
+      for (const action of ['onDelete', 'onUpdate'] as const) {
+        if (
+          relation[action] === 'setNull' &&
+          isRequired(table, relation.field) &&
+          !isArrayField(table.fields, relation.field)
+        ) {
+          diagnostics.push({
+            rule: 'set-null-required',
+            message: `Relation '${table.name}.${relation.field}' uses ${action}: 'setNull', but '${relation.field}' is required. Wrap its validator in v.optional(...).`,
+            location: relation.location,
+          })
+        }
+      }
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Report unique constraints over optional fields, which documents
+ * without the field skip
+ */
+function lintUniqueConstraints(tables: TableMetadata[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = []
+
+  for (const table of tables) {
+    for (const constraint of table.constraints) {
+      if (constraint.type !== 'unique') continue
+
+      // Scope fields are part of the key as well
+      const key = [...(constraint.scope ?? []), ...constraint.fields]
+      for (const field of key) {
+        if (getFieldAtPath(table.fields, field)?.optional) {
+          diagnostics.push({
+            rule: 'unique-optional',
+            message: `Unique constraint on '${table.name}' (${key.join(', ')}) includes optional field '${field}'. Documents without it are never checked for duplicates.`,
+            location: constraint.location,
+          })
+        }
+      }
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Report indexes declared twice on a table, or named like the indexes
+ * convex-sql creates for its constraints
+ */
+function lintIndexes(tables: TableMetadata[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = []
+
+  for (const table of tables) {
+    const seen = new Set<string>()
+
+    for (const index of table.indexes) {
+      if (seen.has(index.name)) {
+        diagnostics.push({
+          rule: 'index-collision',
+          message: `Index '${index.name}' is declared more than once on '${table.name}'. Only the first declaration is kept.`,
+          location: index.location,
+        })
+      }
+      seen.add(index.name)
+
+      if (table.autoIndexes.includes(index.name)) {
+        diagnostics.push({
+          rule: 'index-collision',
+          message: `Index '${index.name}' on '${table.name}' has the same name as the index created for its constraints. Rename it.`,
+          location: index.location,
+        })
+      } else if (index.name.startsWith(AUTO_INDEX_PREFIX)) {
+        diagnostics.push({
+          rule: 'index-collision',
+          message: `Index '${index.name}' on '${table.name}' uses the '${AUTO_INDEX_PREFIX}' prefix, which is reserved for the indexes created for constraints. Rename it.`,
+          location: index.location,
+        })
+      }
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Report cycles of required foreign keys with onDelete: 'restrict'. Once rows
+ * reference each other around such a cycle, each blocks the others' deletion
+ * and none of the references can be cleared.
+ */
+function lintDeleteCycles(tables: TableMetadata[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = []
+
+  // Edges between tables that block deletes for good
+  const edges = new Map<string, RelationEdge[]>()
+  for (const table of tables) {
+    const blocking = getRelations(table)
+      .filter(
+        (relation) =>
+          (relation.onDelete ?? 'restrict') === 'restrict' &&
+          isRequired(table, relation.field) &&
+          // Ids can always be removed from an array foreign key
+          !isArrayField(table.fields, relation.field)
+      )
+      .map((relation) => ({ table, relation }))
+    edges.set(table.name, blocking)
+  }
+
+  // Find strongly connected components with Tarjan's algorithm
+  const indexes = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const components: string[][] = []
+
+  const visit = (name: string): void => {
+    indexes.set(name, indexes.size)
+    lowLinks.set(name, indexes.get(name)!)
+    stack.push(name)
+    onStack.add(name)
+
+    for (const { relation } of edges.get(name) ?? []) {
+      const target = relation.targetTable
+      if (!edges.has(target)) continue
+
+      if (!indexes.has(target)) {
+        visit(target)
+        lowLinks.set(
+          name,
+          Math.min(lowLinks.get(name)!, lowLinks.get(target)!)
+        )
+      } else if (onStack.has(target)) {
+        lowLinks.set(
+          name,
+          Math.min(lowLinks.get(name)!, indexes.get(target)!)
+        )
+      }
+    }
+
+    if (lowLinks.get(name) === indexes.get(name)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== name)
+      components.push(component)
+    }
+  }
+
+  for (const name of edges.keys()) {
+    if (!indexes.has(name)) visit(name)
+  }
+
+  for (const component of components) {
+    const cycle = component.flatMap((name) =>
+      edges
+        .get(name)!
+        .filter(({ relation }) => component.includes(relation.targetTable))
+    )
+    if (cycle.length === 0) continue
+
+    const relations = cycle
+      .map(({ table, relation }) => `'${table.name}.${relation.field}'`)
+      .join(', ')
+
+    diagnostics.push({
+      rule: 'delete-cycle',
+      message:
+        `Relations ${relations} form a cycle of required fields with onDelete: 'restrict'. ` +
+        `Rows that reference each other around it can never be deleted. Make one of the fields optional or use another onDelete action.`,
+      location: cycle[0].relation.location,
+    })
+  }
+
+  return diagnostics
+}
+
+/**
+ * Check a parsed schema for constraints that are valid on their own but
+ * cannot work as intended together
+ */
+export function lintSchema(schema: SchemaMetadata): LintDiagnostic[] {
+  // Only the tables passed to defineSchema() are checked, like codegen. Others
+  // may be declared in the files the schema imports, without being used.
+  const tables = Object.values(schema.tables).filter((table) => table.exportKey)
+
+  const diagnostics = [
+    ...lintRelations(tables),
+    ...lintUniqueConstraints(tables),
+    ...lintIndexes(tables),
+    ...lintDeleteCycles(tables),
+  ]
+
+  // Report in source order, diagnostics without a location last
+  return diagnostics.sort((a, b) => {
+    if (!a.location || !b.location) {
+      return Number(!a.location) - Number(!b.location)
+    }
+    return (
+      a.location.file.localeCompare(b.location.file) ||
+      a.location.line - b.location.line ||
+      a.location.column - b.location.column
+    )
+  })
+}
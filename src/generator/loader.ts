@@ -0,0 +1,221 @@
+import { createRequire } from 'module'
+import { existsSync, unlinkSync, writeFileSync } from 'fs'
+import { basename, dirname, join, resolve } from 'path'
+import ts from 'typescript'
+import type {
+  SchemaMetadata,
+  TableMetadata,
+  RelationConstraintMeta,
+} from '../core/types.js'
+import type { Plugin } from 'esbuild'
+import {
+  getConstraintExpressions,
+  getTablesCode,
+  REFS_TABLE,
+  SEQUENCES_TABLE,
+} from './codegen.js'
+
+// The parts of TableDefinitionWithConstraints the loader relies on. The schema
+// module may resolve its own copy of convex-sql, so tables are matched by shape
+// rather than with instanceof.
+interface TableWithMetadata {
+  toMetadata(): TableMetadata
+}
+
+function isTableWithMetadata(table: unknown): table is TableWithMetadata {
+  return (
+    typeof table === 'object' &&
+    table !== null &&
+    typeof (table as TableWithMetadata).toMetadata === 'function'
+  )
+}
+
+/**
+ * Find the identifiers an expression reads without declaring them, other than
+ * globals, e.g. ['makeId'] for `() => makeId('h')`. Declarations anywhere in the
+ * expression count, regardless of their scope.
+ */
+function getFreeIdentifiers(code: string): string[] {
+  const sourceFile = ts.createSourceFile(
+    'expression.js',
+    `(${code})`,
+    ts.ScriptTarget.ES2022,
+    true,
+    ts.ScriptKind.JS
+  )
+  const declared = new Set<string>()
+  const referenced = new Set<string>()
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) {
+      const parent = node.parent
+      const isName = 'name' in parent && parent.name === node
+      if (
+        isName &&
+        (ts.isParameter(parent) ||
+          ts.isVariableDeclaration(parent) ||
+          ts.isFunctionDeclaration(parent) ||
+          ts.isFunctionExpression(parent) ||
+          ts.isClassDeclaration(parent) ||
+          ts.isClassExpression(parent) ||
+          ts.isBindingElement(parent))
+      ) {
+        declared.add(node.text)
+      } else if (
+        // Property names and labels aren't variables
+        !(isName && !ts.isShorthandPropertyAssignment(parent)) &&
+        !(ts.isBindingElement(parent) && parent.propertyName === node) &&
+        !ts.isLabeledStatement(parent) &&
+        !ts.isBreakOrContinueStatement(parent)
+      ) {
+        referenced.add(node.text)
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return Array.from(referenced).filter(
+    (name) => !declared.has(name) && !(name in globalThis) && name !== 'arguments'
+  )
+}
+
+// Namespace of the stand-in for a generated tables.ts that isn't written yet
+const MISSING_TABLES_NAMESPACE = 'convex-sql-missing-tables'
+
+// Before the first generation, the schema imports a _sql/tables.ts that doesn't exist.
+// It stands in with every bookkeeping table, like the parser assumes for the spread.
+const missingTablesPlugin: Plugin = {
+  name: 'convex-sql-missing-tables',
+  setup(build) {
+    build.onResolve({ filter: /^\..*\/tables(\.js)?$/ }, (args) => {
+      const path = resolve(args.resolveDir, args.path).replace(/\.js$/, '')
+      const candidates = ['', '.ts', '.js', '/index.ts', '/index.js']
+      if (candidates.some((extension) => existsSync(path + extension))) {
+        return undefined
+      }
+      // Its imports resolve from the schema, since the output directory may not exist
+      return {
+        path,
+        namespace: MISSING_TABLES_NAMESPACE,
+        pluginData: { resolveDir: args.resolveDir },
+      }
+    })
+    build.onLoad({ filter: /.*/, namespace: MISSING_TABLES_NAMESPACE }, (args) => ({
+      contents: getTablesCode([REFS_TABLE, SEQUENCES_TABLE]),
+      loader: 'ts',
+      resolveDir: args.pluginData.resolveDir,
+    }))
+  },
+}
+
+/**
+ * Bundle and evaluate a schema module, returning its exports and the
+ * project files it was bundled from
+ */
+export async function loadSchemaModule(
+  filePath: string
+): Promise<{ exports: Record<string, unknown>; files: string[] }> {
+  const { build } = await import('esbuild')
+
+  // Bundle the schema and the files it imports, leaving packages to node's resolution
+  const result = await build({
+    entryPoints: [filePath],
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    packages: 'external',
+    write: false,
+    metafile: true,
+    logLevel: 'silent',
+    plugins: [missingTablesPlugin],
+  })
+  const files = Object.keys(result.metafile.inputs)
+    .filter((input) => !input.startsWith(`${MISSING_TABLES_NAMESPACE}:`))
+    .map((input) => resolve(input))
+
+  // Next to the schema, so its packages resolve from the same node_modules
+  const bundlePath = join(
+    dirname(filePath),
+    `.${basename(filePath)}.${process.pid}.${Date.now()}.cjs`
+  )
+  writeFileSync(bundlePath, result.outputFiles[0].text)
+  try {
+    const require = createRequire(bundlePath)
+    const schemaModule = require(bundlePath)
+    delete require.cache[bundlePath]
+    return { exports: schemaModule, files }
+  } finally {
+    unlinkSync(bundlePath)
+  }
+}
+
+/**
+ * Check that the functions of a loaded table's constraints can be copied into the
+ * generated code. Their source is taken from the bundle, where any variable from
+ * the schema's modules is renamed or out of reach.
+ */
+function assertSelfContained(table: TableMetadata): void {
+  for (const constraint of table.constraints) {
+    for (const expression of getConstraintExpressions(constraint)) {
+      const free = getFreeIdentifiers(expression.code)
+      if (free.length > 0) {
+        throw new Error(
+          `A ${constraint.type} constraint of table '${table.name}' uses ${free.map((name) => `'${name}'`).join(', ')}, ` +
+            `which can't be copied into the generated code from a loaded schema. ` +
+            `Inline it into the function, or generate without --runtime to have imports resolved from source.`
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Build schema metadata from the live table objects of a schema module.
+ *
+ * Unlike the source parser, this sees constraints built dynamically: helpers
+ * returning constraints, spread arrays and tables imported from other files.
+ */
+export async function loadSchemaMetadata(
+  filePath: string
+): Promise<SchemaMetadata> {
+  if (!existsSync(filePath)) {
+    throw new Error(`Schema file not found: ${filePath}`)
+  }
+
+  const { exports: schemaModule, files } = await loadSchemaModule(filePath)
+  const schema = schemaModule.default as
+    | { tables?: Record<string, unknown> }
+    | undefined
+
+  if (!schema || typeof schema.tables !== 'object') {
+    throw new Error(
+      `Schema file ${filePath} must have a default export created with defineSchema()`
+    )
+  }
+
+  const tables: Record<string, TableMetadata> = {}
+  const relations: RelationConstraintMeta[] = []
+
+  for (const [exportKey, table] of Object.entries(schema.tables)) {
+    // Tables defined with defineTable() have no constraints to enforce
+    if (!isTableWithMetadata(table)) continue
+
+    const metadata = table.toMetadata()
+    assertSelfContained(metadata)
+    tables[exportKey] = { ...metadata, exportKey }
+
+    relations.push(
+      ...metadata.constraints.filter(
+        (c): c is RelationConstraintMeta => c.type === 'relation'
+      )
+    )
+  }
+
+  return {
+    tables,
+    relations,
+    files,
+    schemaTables: Object.keys(schema.tables),
+  }
+}
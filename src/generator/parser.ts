@@ -1,28 +1,64 @@
 import ts from 'typescript'
 import { existsSync } from 'fs'
+import { dirname, relative, resolve } from 'path'
 import type {
   SchemaMetadata,
   TableMetadata,
-  UniqueConstraint,
-  DefaultConstraint,
+  UniqueConstraintMeta,
+  DefaultConstraintMeta,
+  CheckConstraintMeta,
   DeleteAction,
+  ExpressionImport,
+  ExpressionMeta,
+  FieldType,
+  IndexMetadata,
+  SourceLocation,
   RelationConstraintMeta,
+  ManyToManyConstraintMeta,
+  PolymorphicConstraintMeta,
+  SequenceConstraint,
   ConstrainMeta,
 } from '../core/types.js'
+import { getAutoIndexes, normalizedFieldName } from '../core/indexes.js'
+import { getManagedFields } from '../core/fields.js'
+import { REFS_TABLE, SEQUENCES_TABLE } from './codegen.js'
+
+// Stands in for the keys of a defineSchema() entry the parser can't follow
+const UNKNOWN_TABLES = '*'
+
+function stripExtension(path: string): string {
+  return path.replace(/\.[cm]?[jt]sx?$/, '')
+}
 
 /**
- * Parse a schema.ts file and extract table definitions with constraints
+ * Parse a schema.ts file and extract table definitions with constraints,
+ * including tables declared in the files it imports
  */
 export class SchemaParser {
+  private program: ts.Program
+  private checker: ts.TypeChecker
   private sourceFile: ts.SourceFile
+  private moduleBindings = new Map<
+    ts.SourceFile,
+    Record<string, ExpressionImport>
+  >()
 
-  constructor(filePath: string) {
-    const program = ts.createProgram([filePath], {
+  constructor(private filePath: string) {
+    const options: ts.CompilerOptions = {
       target: ts.ScriptTarget.ES2022,
       module: ts.ModuleKind.ESNext,
-    })
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+    }
 
-    this.sourceFile = program.getSourceFile(filePath)!
+    // Keep parent pointers so nodes can find their own source file
+    this.program = ts.createProgram(
+      [filePath],
+      options,
+      ts.createCompilerHost(options, true)
+    )
+    this.checker = this.program.getTypeChecker()
+
+    this.sourceFile = this.program.getSourceFile(filePath)!
 
     if (!this.sourceFile) {
       throw new Error(`Could not parse file: ${filePath}`)
@@ -33,51 +69,193 @@ export class SchemaParser {
    * Parse the schema file and extract all table metadata
    */
   parseSchema(): SchemaMetadata {
-    const tables: Record<string, TableMetadata> = {}
+    const tablesBySymbol = new Map<ts.Symbol, TableMetadata>()
     const relations: RelationConstraintMeta[] = []
-    const variableToTableMap: Record<string, string> = {}
+    const tableSymbols = new Map<ts.Symbol, string>()
+    const sourceFiles = this.collectSourceFiles()
 
     // First pass: collect all table variable declarations
-    ts.forEachChild(this.sourceFile, (node) => {
-      this.collectTableVariables(node, variableToTableMap)
-    })
+    for (const sourceFile of sourceFiles) {
+      ts.forEachChild(sourceFile, (node) => {
+        this.collectTableVariables(node, tableSymbols)
+      })
+    }
 
     // Second pass: extract full table metadata with constraint resolution
-    ts.forEachChild(this.sourceFile, (node) => {
-      this.visitNode(node, tables, relations, variableToTableMap)
-    })
+    for (const sourceFile of sourceFiles) {
+      ts.forEachChild(sourceFile, (node) => {
+        this.visitNode(node, tablesBySymbol, relations, tableSymbols)
+      })
+    }
+
+    // Add the constraints many-to-many links need to their join tables
+    this.addJoinConstraints(Array.from(tablesBySymbol.values()), relations)
 
     // Third pass: parse schema export to understand table mapping
-    const schemaExport = this.parseSchemaExport(variableToTableMap)
+    const { mapping: schemaExport, keys: schemaTables } =
+      this.parseSchemaExport()
 
     // Update table metadata with schema export information
-    for (const [exportKey, variableName] of Object.entries(schemaExport)) {
-      if (tables[variableName]) {
-        tables[variableName].exportKey = exportKey
+    for (const [exportKey, symbol] of Object.entries(schemaExport)) {
+      const table = tablesBySymbol.get(symbol)
+      if (table) {
+        table.exportKey = exportKey
       }
     }
 
     return {
-      tables,
+      tables: this.keyTables(tablesBySymbol),
       relations,
+      files: sourceFiles.map((sourceFile) => resolve(sourceFile.fileName)),
+      schemaTables,
+    }
+  }
+
+  /**
+   * Add a cascading relation for each join field of a many-to-many link, and a
+   * unique key over both, to its join table - the same way Table() does at runtime
+   */
+  private addJoinConstraints(
+    tables: TableMetadata[],
+    relations: RelationConstraintMeta[]
+  ): void {
+    for (const table of tables) {
+      for (const constraint of table.constraints) {
+        if (constraint.type !== 'manyToMany') continue
+
+        const join = tables.find((t) => t.name === constraint.through)
+        if (!join) continue
+
+        const { fields, location } = constraint
+        fields.forEach((field, i) => {
+          if (
+            join.constraints.some(
+              (c) => c.type === 'relation' && c.field === field
+            )
+          ) {
+            return
+          }
+
+          const relation: RelationConstraintMeta & ConstrainMeta = {
+            type: 'relation',
+            field,
+            targetTable: i === 0 ? table.name : constraint.targetTable,
+            onDelete: 'cascade',
+            location,
+          }
+          join.constraints.push(relation)
+          relations.push(relation)
+        })
+
+        if (
+          !join.constraints.some(
+            (c) => c.type === 'unique' && c.fields.join() === fields.join()
+          )
+        ) {
+          join.constraints.push({
+            type: 'unique',
+            fields: [...fields],
+            location,
+          })
+        }
+
+        join.autoIndexes = getAutoIndexes(join.constraints, join.fields)
+      }
+    }
+  }
+
+  /**
+   * Collect the schema file and the project files it depends on,
+   * following imports and re-exports but not into packages
+   */
+  private collectSourceFiles(): ts.SourceFile[] {
+    const sourceFiles = new Set<ts.SourceFile>()
+
+    const visit = (sourceFile: ts.SourceFile): void => {
+      if (sourceFiles.has(sourceFile)) return
+      sourceFiles.add(sourceFile)
+
+      for (const statement of sourceFile.statements) {
+        if (
+          (ts.isImportDeclaration(statement) ||
+            ts.isExportDeclaration(statement)) &&
+          statement.moduleSpecifier
+        ) {
+          const imported = this.checker.getSymbolAtLocation(
+            statement.moduleSpecifier
+          )?.valueDeclaration
+
+          if (
+            imported &&
+            ts.isSourceFile(imported) &&
+            !imported.isDeclarationFile &&
+            !this.program.isSourceFileFromExternalLibrary(imported)
+          ) {
+            visit(imported)
+          }
+        }
+      }
+    }
+
+    visit(this.sourceFile)
+    return Array.from(sourceFiles)
+  }
+
+  /**
+   * Resolve a reference to a table variable to the symbol of its declaration,
+   * following imports and re-exports
+   */
+  private resolveSymbol(node: ts.Node): ts.Symbol | undefined {
+    let symbol = ts.isShorthandPropertyAssignment(node)
+      ? this.checker.getShorthandAssignmentValueSymbol(node)
+      : this.checker.getSymbolAtLocation(
+          ts.isPropertyAccessExpression(node) ? node.name : node
+        )
+    if (!symbol) return undefined
+
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker.getAliasedSymbol(symbol)
+    }
+    return this.checker.getExportSymbolOfSymbol(symbol)
+  }
+
+  /**
+   * Key tables by their variable name, qualifying it with the declaring file
+   * when the same name is used in more than one file
+   */
+  private keyTables(
+    tablesBySymbol: Map<ts.Symbol, TableMetadata>
+  ): Record<string, TableMetadata> {
+    const tables: Record<string, TableMetadata> = {}
+
+    for (const [symbol, table] of tablesBySymbol) {
+      let key = table.variableName!
+      if (tables[key]) {
+        const fileName = symbol.valueDeclaration!.getSourceFile().fileName
+        const file = stripExtension(relative(dirname(this.filePath), fileName))
+        key = `${file}:${key}`
+      }
+      tables[key] = table
     }
+
+    return tables
   }
 
   private collectTableVariables(
     node: ts.Node,
-    variableToTableMap: Record<string, string>
+    tableSymbols: Map<ts.Symbol, string>
   ): void {
     // Look for variable declarations that call Table()
     if (ts.isVariableStatement(node)) {
       for (const declaration of node.declarationList.declarations) {
         if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
-          const variableName = this.getVariableName(declaration)
+          const symbol = this.resolveSymbol(declaration.name)
           const tableName = this.extractTableNameFromCall(
             declaration.initializer
           )
 
-          if (variableName && tableName) {
-            variableToTableMap[variableName] = tableName
+          if (symbol && tableName) {
+            tableSymbols.set(symbol, tableName)
           }
         }
       }
@@ -85,15 +263,15 @@ export class SchemaParser {
 
     // Recursively visit child nodes
     ts.forEachChild(node, (child) =>
-      this.collectTableVariables(child, variableToTableMap)
+      this.collectTableVariables(child, tableSymbols)
     )
   }
 
   private visitNode(
     node: ts.Node,
-    tables: Record<string, TableMetadata>,
+    tablesBySymbol: Map<ts.Symbol, TableMetadata>,
     relations: RelationConstraintMeta[],
-    variableToTableMap: Record<string, string>
+    tableSymbols: Map<ts.Symbol, string>
   ): void {
     // Look for variable declarations that call Table()
     if (ts.isVariableStatement(node)) {
@@ -101,12 +279,12 @@ export class SchemaParser {
         if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
           const tableMetadata = this.extractTableFromDeclaration(
             declaration,
-            variableToTableMap
+            tableSymbols
           )
           if (tableMetadata) {
-            const variableName = this.getVariableName(declaration)
-            if (variableName) {
-              tables[variableName] = tableMetadata
+            const symbol = this.resolveSymbol(declaration.name)
+            if (symbol) {
+              tablesBySymbol.set(symbol, tableMetadata)
 
               // Extract relations for global tracking
               const tableRelations = tableMetadata.constraints.filter(
@@ -121,7 +299,7 @@ export class SchemaParser {
 
     // Recursively visit child nodes
     ts.forEachChild(node, (child) =>
-      this.visitNode(child, tables, relations, variableToTableMap)
+      this.visitNode(child, tablesBySymbol, relations, tableSymbols)
     )
   }
 
@@ -141,7 +319,7 @@ export class SchemaParser {
 
   private extractTableFromDeclaration(
     declaration: ts.VariableDeclaration,
-    variableToTableMap: Record<string, string>
+    tableSymbols: Map<ts.Symbol, string>
   ): TableMetadata | null {
     if (!declaration.initializer) return null
 
@@ -158,19 +336,100 @@ export class SchemaParser {
     const fields = this.extractFieldsFromExpression(callExpression.arguments[1])
     const constraints = this.extractConstraintsFromExpression(
       declaration.initializer,
-      variableToTableMap
+      tableName,
+      tableSymbols
     )
 
+    // Table() adds a shadow field for every normalized unique field
+    for (const constraint of constraints) {
+      if (constraint.type !== 'unique' || !constraint.normalize) continue
+      for (const field of constraint.fields) {
+        fields[normalizedFieldName(field)] = { kind: 'string', optional: true }
+      }
+    }
+
+    // .timestamps() and .audited() add their fields at runtime
+    const { initializer } = declaration
+    const timestamps = !!this.findChainedCall(initializer, 'timestamps')
+    const audited = !!this.findChainedCall(initializer, 'audited')
+    const managedFields = getManagedFields({ timestamps, audited })
+    Object.assign(fields, managedFields)
+
     // Calculate auto-indexes
-    const autoIndexes = this.getAutoIndexFields(constraints)
+    const autoIndexes = getAutoIndexes(
+      constraints,
+      fields,
+      Object.keys(managedFields)
+    )
+    const softDeleteCall = this.findChainedCall(initializer, 'softDelete')
+    const softDelete =
+      softDeleteCall?.arguments[0] &&
+      this.extractStringLiteral(softDeleteCall.arguments[0])
 
     return {
       name: tableName,
       variableName,
       fields,
       constraints,
+      indexes: this.extractIndexesFromExpression(declaration.initializer),
       autoIndexes,
+      ...(softDelete ? { softDelete } : {}),
+      ...(timestamps ? { timestamps } : {}),
+      ...(audited ? { audited } : {}),
+      location: this.getLocation(declaration.name),
+    }
+  }
+
+  /**
+   * Find a method call along a Table() call chain, like .softDelete('deletedAt')
+   */
+  private findChainedCall(
+    node: ts.Node,
+    method: string
+  ): ts.CallExpression | null {
+    let current = node
+    while (
+      ts.isCallExpression(current) &&
+      ts.isPropertyAccessExpression(current.expression)
+    ) {
+      if (current.expression.name.text === method) return current
+      current = current.expression.expression
     }
+
+    return null
+  }
+
+  /**
+   * Collect the indexes declared with .index() along a Table() call chain
+   */
+  private extractIndexesFromExpression(node: ts.Node): IndexMetadata[] {
+    const indexes: IndexMetadata[] = []
+
+    let current = node
+    while (
+      ts.isCallExpression(current) &&
+      ts.isPropertyAccessExpression(current.expression)
+    ) {
+      const [nameArg, fieldsArg] = current.arguments
+      const name = nameArg && this.extractStringLiteral(nameArg)
+
+      if (current.expression.name.text === 'index' && name) {
+        indexes.unshift({
+          name,
+          fields:
+            fieldsArg && ts.isArrayLiteralExpression(fieldsArg)
+              ? fieldsArg.elements.map((element) =>
+                  this.extractStringLiteral(element)
+                )
+              : [],
+          location: this.getLocation(current.expression.name),
+        })
+      }
+
+      current = current.expression.expression
+    }
+
+    return indexes
   }
 
   private findTableCall(node: ts.Node): ts.CallExpression | null {
@@ -203,18 +462,23 @@ export class SchemaParser {
     return ''
   }
 
-  private extractFieldsFromExpression(node: ts.Node): Record<string, any> {
-    const fields: Record<string, any> = {}
+  private extractFieldsFromExpression(
+    node: ts.Node
+  ): Record<string, FieldType> {
+    const fields: Record<string, FieldType> = {}
+    const fieldsNode = this.resolveInitializer(node)
 
-    if (ts.isObjectLiteralExpression(node)) {
-      for (const property of node.properties) {
+    if (ts.isObjectLiteralExpression(fieldsNode)) {
+      for (const property of fieldsNode.properties) {
         if (
           ts.isPropertyAssignment(property) &&
-          ts.isIdentifier(property.name)
+          (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
         ) {
           fields[property.name.text] = this.extractValidatorType(
             property.initializer
           )
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          fields[property.name.text] = this.extractValidatorType(property)
         }
       }
     }
@@ -222,15 +486,139 @@ export class SchemaParser {
     return fields
   }
 
-  private extractValidatorType(node: ts.Node): string {
-    // For now, just return a string representation
-    // In a full implementation, you'd want to parse the actual validator types
-    return node.getText(this.sourceFile)
+  /**
+   * Follow a reference to a variable to the expression it is initialized with,
+   * so validators and field objects can be shared between tables and files
+   */
+  private resolveInitializer(node: ts.Node): ts.Node {
+    if (
+      !ts.isIdentifier(node) &&
+      !ts.isPropertyAccessExpression(node) &&
+      !ts.isShorthandPropertyAssignment(node)
+    ) {
+      return node
+    }
+
+    const declaration = this.resolveSymbol(node)?.valueDeclaration
+    if (
+      declaration &&
+      ts.isVariableDeclaration(declaration) &&
+      declaration.initializer
+    ) {
+      return this.resolveInitializer(declaration.initializer)
+    }
+
+    return node
+  }
+
+  /**
+   * Read the structure of a validator built from v.* calls
+   */
+  private extractValidatorType(node: ts.Node): FieldType {
+    const validator = this.resolveInitializer(node)
+    const unknown: FieldType = {
+      kind: 'unknown',
+      source: node.getText(),
+      optional: false,
+    }
+
+    if (
+      !ts.isCallExpression(validator) ||
+      !ts.isPropertyAccessExpression(validator.expression)
+    ) {
+      return unknown
+    }
+
+    const [first, second] = validator.arguments
+    const kind = validator.expression.name.text
+
+    switch (kind) {
+      case 'optional':
+        if (!first) return unknown
+        return { ...this.extractValidatorType(first), optional: true }
+      case 'id': {
+        const table = first && this.extractStringLiteral(first)
+        return table ? { kind: 'id', table, optional: false } : unknown
+      }
+      case 'string':
+      case 'float64':
+      case 'int64':
+      case 'boolean':
+      case 'bytes':
+      case 'null':
+      case 'any':
+        return { kind, optional: false }
+      // Aliases for float64 and int64
+      case 'number':
+        return { kind: 'float64', optional: false }
+      case 'bigint':
+        return { kind: 'int64', optional: false }
+      case 'literal': {
+        const value = first && this.extractLiteralValue(first)
+        return value !== undefined
+          ? { kind: 'literal', value, optional: false }
+          : unknown
+      }
+      case 'array':
+        if (!first) return unknown
+        return {
+          kind: 'array',
+          element: this.extractValidatorType(first),
+          optional: false,
+        }
+      case 'object':
+        if (!first) return unknown
+        return {
+          kind: 'object',
+          fields: this.extractFieldsFromExpression(first),
+          optional: false,
+        }
+      case 'record':
+        if (!first || !second) return unknown
+        return {
+          kind: 'record',
+          key: this.extractValidatorType(first),
+          value: this.extractValidatorType(second),
+          optional: false,
+        }
+      case 'union':
+        return {
+          kind: 'union',
+          members: validator.arguments.map((member) =>
+            this.extractValidatorType(member)
+          ),
+          optional: false,
+        }
+      default:
+        return unknown
+    }
+  }
+
+  private extractLiteralValue(
+    node: ts.Node
+  ): string | number | boolean | undefined {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return node.text
+    }
+    if (ts.isNumericLiteral(node)) {
+      return Number(node.text)
+    }
+    if (
+      ts.isPrefixUnaryExpression(node) &&
+      node.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(node.operand)
+    ) {
+      return -Number(node.operand.text)
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false
+    return undefined
   }
 
   private extractConstraintsFromExpression(
     node: ts.Node,
-    variableToTableMap: Record<string, string>
+    tableName: string,
+    tableSymbols: Map<ts.Symbol, string>
   ): ConstrainMeta[] {
     const constraints: ConstrainMeta[] = []
 
@@ -258,7 +646,8 @@ export class SchemaParser {
             for (const element of body.elements) {
               const constraint = this.parseConstraintExpression(
                 element,
-                variableToTableMap
+                tableName,
+                tableSymbols
               )
               if (constraint) {
                 constraints.push(constraint)
@@ -277,7 +666,8 @@ export class SchemaParser {
                 for (const element of stmt.expression.elements) {
                   const constraint = this.parseConstraintExpression(
                     element,
-                    variableToTableMap
+                    tableName,
+                    tableSymbols
                   )
                   if (constraint) {
                     constraints.push(constraint)
@@ -293,7 +683,8 @@ export class SchemaParser {
           for (const element of constraintsArg.elements) {
             const constraint = this.parseConstraintExpression(
               element,
-              variableToTableMap
+              tableName,
+              tableSymbols
             )
             if (constraint) {
               constraints.push(constraint)
@@ -312,7 +703,8 @@ export class SchemaParser {
 
   private parseConstraintExpression(
     node: ts.Node,
-    variableToTableMap: Record<string, string>
+    tableName: string,
+    tableSymbols: Map<ts.Symbol, string>
   ): ConstrainMeta | null {
     if (!ts.isCallExpression(node)) return null
 
@@ -325,16 +717,51 @@ export class SchemaParser {
 
     if (!functionName) return null
 
+    let constraint: ConstrainMeta | null
     switch (functionName) {
       case 'unique':
-        return this.parseUniqueConstraint(node)
+        constraint = this.parseUniqueConstraint(node)
+        break
       case 'relation':
-        return this.parseRelationConstraint(node, variableToTableMap)
+        constraint = this.parseRelationConstraint(node, tableSymbols)
+        break
       case 'default':
-        return this.parseDefaultConstraint(node)
+        constraint = this.parseDefaultConstraint(node)
+        break
+      case 'check':
+        constraint = this.parseCheckConstraint(node)
+        break
+      case 'polymorphic':
+        constraint = this.parsePolymorphicConstraint(node, tableSymbols)
+        break
+      case 'sequence':
+        constraint = this.parseSequenceConstraint(node)
+        break
+      case 'manyToMany':
+        constraint = this.parseManyToManyConstraint(
+          node,
+          tableName,
+          tableSymbols
+        )
+        break
       default:
         return null
     }
+
+    return constraint && { ...constraint, location: this.getLocation(node) }
+  }
+
+  private getLocation(node: ts.Node): SourceLocation {
+    const sourceFile = node.getSourceFile()
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart()
+    )
+
+    return {
+      file: sourceFile.fileName,
+      line: line + 1,
+      column: character + 1,
+    }
   }
 
   private getFunctionName(node: ts.Node): string | null {
@@ -346,41 +773,412 @@ export class SchemaParser {
 
   private parseUniqueConstraint(
     node: ts.CallExpression
-  ): UniqueConstraint | null {
-    const fieldArg = node.arguments[0]
-    const field = this.extractStringLiteral(fieldArg)
+  ): UniqueConstraintMeta | null {
+    const [fieldsArg, optionsArg] = node.arguments
+    if (!fieldsArg) return null
+
+    // Handle both c.unique('email') and c.unique(['orgId', 'slug'])
+    const fields = this.extractFieldList(fieldsArg)
+    if (fields.length === 0 || fields.some((field) => !field)) return null
+
+    const where: Record<string, string | number | boolean> = {}
+    let scope: string[] | undefined
+    let normalize: UniqueConstraintMeta['normalize']
+
+    const properties =
+      optionsArg && ts.isObjectLiteralExpression(optionsArg)
+        ? optionsArg.properties
+        : []
+    for (const property of properties) {
+      if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) {
+        continue
+      }
 
-    if (!field) return null
+      if (
+        property.name.text === 'where' &&
+        ts.isObjectLiteralExpression(property.initializer)
+      ) {
+        // Only literal values can be matched, like { status: 'active' }
+        for (const entry of property.initializer.properties) {
+          if (
+            ts.isPropertyAssignment(entry) &&
+            (ts.isIdentifier(entry.name) || ts.isStringLiteral(entry.name))
+          ) {
+            const value = this.extractLiteralValue(entry.initializer)
+            if (value !== undefined) {
+              where[entry.name.text] = value
+              continue
+            }
+          }
+          throw new Error(
+            `The where filter of c.unique() at '${entry.getText()}' must map a field to a string, number or boolean literal. ` +
+              `Generate with --runtime to use computed values.`
+          )
+        }
+      } else if (property.name.text === 'scope') {
+        scope = this.extractFieldList(property.initializer)
+        if (scope.some((field) => !field)) return null
+      } else if (property.name.text === 'normalize') {
+        // A built-in mode, or the source of a custom function
+        const mode = this.extractStringLiteral(property.initializer)
+        normalize =
+          mode === 'lowercase' || mode === 'trim'
+            ? mode
+            : this.extractExpression(property.initializer)
+      }
+    }
 
     return {
       type: 'unique',
+      fields,
+      ...(Object.keys(where).length > 0 ? { where } : {}),
+      ...(scope ? { scope } : {}),
+      ...(normalize ? { normalize } : {}),
+    }
+  }
+
+  private parseSequenceConstraint(
+    node: ts.CallExpression
+  ): SequenceConstraint | null {
+    const [fieldArg, optionsArg] = node.arguments
+    const field = fieldArg && this.extractStringLiteral(fieldArg)
+    if (!field) return null
+
+    let scope: string[] | undefined
+    if (optionsArg && ts.isObjectLiteralExpression(optionsArg)) {
+      for (const property of optionsArg.properties) {
+        if (
+          ts.isPropertyAssignment(property) &&
+          ts.isIdentifier(property.name) &&
+          property.name.text === 'scope'
+        ) {
+          scope = this.extractFieldList(property.initializer)
+          if (scope.some((field) => !field)) return null
+        }
+      }
+    }
+
+    return {
+      type: 'sequence',
       field,
+      ...(scope ? { scope } : {}),
     }
   }
 
+  // Read a field name, or an array literal of field names
+  private extractFieldList(node: ts.Node): string[] {
+    return ts.isArrayLiteralExpression(node)
+      ? node.elements.map((element) => this.extractStringLiteral(element))
+      : [this.extractStringLiteral(node)]
+  }
+
   private parseDefaultConstraint(
     node: ts.CallExpression
-  ): DefaultConstraint | null {
+  ): DefaultConstraintMeta | null {
     const fieldArg = node.arguments[0]
     const valueArg = node.arguments[1]
 
     const field = this.extractStringLiteral(fieldArg)
     if (!field) return null
 
-    // Extract the default value - for now just get the text representation
-    const value = valueArg ? valueArg.getText(this.sourceFile) : null
-    if (value === null) return null
+    // Keep the source of the default value so codegen can emit it as-is,
+    // including function values like () => Date.now()
+    if (!valueArg) return null
 
     return {
       type: 'default',
       field,
-      value,
+      value: this.extractExpression(valueArg),
+    }
+  }
+
+  private parseCheckConstraint(
+    node: ts.CallExpression
+  ): CheckConstraintMeta | null {
+    const nameArg = node.arguments[0]
+    const predicateArg = node.arguments[1]
+
+    const name = this.extractStringLiteral(nameArg)
+    if (!name || !predicateArg) return null
+
+    return {
+      type: 'check',
+      name,
+      predicate: this.extractExpression(predicateArg),
+    }
+  }
+
+  /**
+   * Extract the source of an expression along with the imports it needs
+   * to be evaluated outside of the schema file
+   */
+  private extractExpression(node: ts.Expression): ExpressionMeta {
+    const sourceFile = node.getSourceFile()
+    const bindings = this.getModuleBindings(sourceFile)
+    const imports = new Map<string, ExpressionImport>()
+
+    const visit = (n: ts.Node): void => {
+      // Skip member names like the `now` in `Date.now` or `{ now: 1 }`
+      if (ts.isPropertyAccessExpression(n)) return visit(n.expression)
+      if (ts.isPropertyAssignment(n)) return visit(n.initializer)
+
+      if (ts.isIdentifier(n) && bindings[n.text]) {
+        imports.set(n.text, bindings[n.text])
+      }
+      ts.forEachChild(n, visit)
+    }
+    visit(node)
+
+    for (const name of imports.keys()) {
+      if (!bindings[name].from) {
+        throw new Error(
+          `'${name}' is used by a constraint in ${sourceFile.fileName} but is not exported, ` +
+            `so it cannot be referenced from the generated code. Export it from that file.`
+        )
+      }
+    }
+
+    return {
+      code: node.getText(),
+      imports: Array.from(imports.values()),
+    }
+  }
+
+  /**
+   * Collect the top-level names of a schema file that an expression can
+   * reference: imports, and local declarations (which need to be exported)
+   */
+  private getModuleBindings(
+    sourceFile: ts.SourceFile
+  ): Record<string, ExpressionImport> {
+    const cached = this.moduleBindings.get(sourceFile)
+    if (cached) return cached
+
+    const bindings: Record<string, ExpressionImport> = {}
+    const schemaModule = stripExtension(sourceFile.fileName)
+
+    const resolveSpecifier = (specifier: string) =>
+      specifier.startsWith('.')
+        ? stripExtension(resolve(dirname(sourceFile.fileName), specifier))
+        : specifier
+
+    const isExported = (node: ts.Node) =>
+      ts.canHaveModifiers(node) &&
+      !!ts
+        .getModifiers(node)
+        ?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)
+
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.importClause &&
+        !statement.importClause.isTypeOnly
+      ) {
+        const from = resolveSpecifier(statement.moduleSpecifier.text)
+        const clause = statement.importClause
+
+        if (clause.name) {
+          bindings[clause.name.text] = {
+            name: clause.name.text,
+            importedName: 'default',
+            from,
+          }
+        }
+
+        if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+          const name = clause.namedBindings.name.text
+          bindings[name] = { name, importedName: '*', from }
+        } else if (clause.namedBindings) {
+          for (const element of clause.namedBindings.elements) {
+            if (element.isTypeOnly) continue
+            bindings[element.name.text] = {
+              name: element.name.text,
+              importedName: (element.propertyName ?? element.name).text,
+              from,
+            }
+          }
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        const from = isExported(statement) ? schemaModule : ''
+        for (const declaration of statement.declarationList.declarations) {
+          const name = this.getVariableName(declaration)
+          if (name) {
+            bindings[name] = { name, importedName: name, from }
+          }
+        }
+      } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+        const name = statement.name.text
+        const from = isExported(statement) ? schemaModule : ''
+        bindings[name] = { name, importedName: name, from }
+      }
+    }
+
+    this.moduleBindings.set(sourceFile, bindings)
+    return bindings
+  }
+
+  /**
+   * Get the name of the table a constraint argument refers to
+   */
+  private extractTableReference(
+    node: ts.Node | undefined,
+    tableSymbols: Map<ts.Symbol, string>
+  ): string | null {
+    if (!node) return null
+
+    if (ts.isStringLiteral(node)) {
+      return node.text
+    }
+
+    if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+      // This references a table variable, possibly imported from another file -
+      // look up the actual table name
+      const symbol = this.resolveSymbol(node)
+      const variableName = ts.isIdentifier(node) ? node.text : node.name.text
+      return (symbol && tableSymbols.get(symbol)) || variableName.toLowerCase()
+    }
+
+    return null
+  }
+
+  private parsePolymorphicConstraint(
+    node: ts.CallExpression,
+    tableSymbols: Map<ts.Symbol, string>
+  ): PolymorphicConstraintMeta | null {
+    const [fieldArg, targetsArg, optionsArg] = node.arguments
+
+    const field = this.extractStringLiteral(fieldArg)
+    if (!field || !targetsArg || !ts.isArrayLiteralExpression(targetsArg)) {
+      return null
+    }
+
+    const targetTables = targetsArg.elements.map((element) =>
+      this.extractTableReference(element, tableSymbols)
+    )
+    if (targetTables.length === 0 || targetTables.some((t) => !t)) return null
+
+    // onDelete is either one action for every target, or an object keyed by table name
+    const onDelete: PolymorphicConstraintMeta['onDelete'] = {}
+    if (optionsArg && ts.isObjectLiteralExpression(optionsArg)) {
+      for (const property of optionsArg.properties) {
+        if (
+          !ts.isPropertyAssignment(property) ||
+          !ts.isIdentifier(property.name) ||
+          property.name.text !== 'onDelete'
+        ) {
+          continue
+        }
+
+        const action = this.extractStringLiteral(property.initializer)
+        if (action) {
+          for (const table of targetTables) {
+            onDelete[table!] = action as DeleteAction
+          }
+        } else if (ts.isObjectLiteralExpression(property.initializer)) {
+          for (const entry of property.initializer.properties) {
+            if (
+              ts.isPropertyAssignment(entry) &&
+              (ts.isIdentifier(entry.name) || ts.isStringLiteral(entry.name))
+            ) {
+              const value = this.extractStringLiteral(entry.initializer)
+              if (value) onDelete[entry.name.text] = value as DeleteAction
+            }
+          }
+        }
+      }
+    }
+
+    return {
+      type: 'polymorphic',
+      field,
+      targetTables: targetTables as string[],
+      onDelete,
+    }
+  }
+
+  private parseManyToManyConstraint(
+    node: ts.CallExpression,
+    tableName: string,
+    tableSymbols: Map<ts.Symbol, string>
+  ): ManyToManyConstraintMeta | null {
+    const [nameArg, targetArg, optionsArg] = node.arguments
+
+    const name = this.extractStringLiteral(nameArg)
+    const targetTable = this.extractTableReference(targetArg, tableSymbols)
+    if (!name || !targetTable) return null
+    if (!optionsArg || !ts.isObjectLiteralExpression(optionsArg)) return null
+
+    let throughArg: ts.Expression | undefined
+    let fields: [string, string] | undefined
+
+    for (const property of optionsArg.properties) {
+      if (ts.isShorthandPropertyAssignment(property)) {
+        if (property.name.text === 'through') throughArg = property.name
+      } else if (
+        ts.isPropertyAssignment(property) &&
+        ts.isIdentifier(property.name)
+      ) {
+        if (property.name.text === 'through') {
+          throughArg = property.initializer
+        } else if (
+          property.name.text === 'fields' &&
+          ts.isArrayLiteralExpression(property.initializer) &&
+          property.initializer.elements.length === 2
+        ) {
+          const [sourceField, targetField] =
+            property.initializer.elements.map((element) =>
+              this.extractStringLiteral(element)
+            )
+          if (sourceField && targetField) fields = [sourceField, targetField]
+        }
+      }
+    }
+
+    const through = this.extractTableReference(throughArg, tableSymbols)
+    if (!throughArg || !through) return null
+
+    if (!fields) {
+      // Infer the join fields from the v.id() validators of the join table
+      const declaration = this.resolveSymbol(throughArg)?.valueDeclaration
+      const tableCall =
+        declaration &&
+        ts.isVariableDeclaration(declaration) &&
+        declaration.initializer &&
+        this.findTableCall(declaration.initializer)
+      const joinFields = tableCall
+        ? this.extractFieldsFromExpression(tableCall.arguments[1])
+        : {}
+
+      const getJoinField = (table: string): string => {
+        const matches = Object.entries(joinFields).filter(
+          ([, fieldType]) =>
+            fieldType.kind === 'id' && fieldType.table === table
+        )
+        if (matches.length !== 1) {
+          throw new Error(
+            `Join table '${through}' of many-to-many '${name}' must have exactly one v.id('${table}') field, found ${matches.length}. ` +
+              `Pass the join fields explicitly with { fields: [sourceField, targetField] }.`
+          )
+        }
+        return matches[0][0]
+      }
+
+      fields = [getJoinField(tableName), getJoinField(targetTable)]
+    }
+
+    return {
+      type: 'manyToMany',
+      name,
+      targetTable,
+      through,
+      fields,
     }
   }
 
   private parseRelationConstraint(
     node: ts.CallExpression,
-    variableToTableMap: Record<string, string>
+    tableSymbols: Map<ts.Symbol, string>
   ): RelationConstraintMeta | null {
     const fieldArg = node.arguments[0]
     const targetArg = node.arguments[1]
@@ -389,23 +1187,15 @@ export class SchemaParser {
     const field = this.extractStringLiteral(fieldArg)
     if (!field) return null
 
-    // Extract target table name
-    let targetTable: string | null = null
-    if (ts.isStringLiteral(targetArg)) {
-      targetTable = targetArg.text
-    } else if (ts.isIdentifier(targetArg)) {
-      // This references a table variable - look up the actual table name
-      const variableName = targetArg.text
-      targetTable =
-        variableToTableMap[variableName] || variableName.toLowerCase()
-    }
-
+    const targetTable = this.extractTableReference(targetArg, tableSymbols)
     if (!targetTable) return null
 
     // Extract options if present
     let targetField: string | undefined
     let onDelete: DeleteAction | undefined
     let onUpdate: DeleteAction | undefined
+    let name: string | undefined
+    let inverseName: string | undefined
 
     if (optionsArg && ts.isObjectLiteralExpression(optionsArg)) {
       for (const property of optionsArg.properties) {
@@ -420,6 +1210,10 @@ export class SchemaParser {
             onDelete = (value as DeleteAction) || undefined
           } else if (property.name.text === 'onUpdate') {
             onUpdate = (value as DeleteAction) || undefined
+          } else if (property.name.text === 'name') {
+            name = value || undefined
+          } else if (property.name.text === 'inverseName') {
+            inverseName = value || undefined
           }
         }
       }
@@ -432,49 +1226,48 @@ export class SchemaParser {
       targetField,
       onDelete,
       onUpdate,
+      name,
+      inverseName,
     }
   }
 
-  private getAutoIndexFields(constraints: ConstrainMeta[]): string[] {
-    const autoIndexes = new Set<string>()
-
-    for (const constraint of constraints) {
-      if (constraint.type === 'unique' || constraint.type === 'relation') {
-        autoIndexes.add(constraint.field)
-      }
-    }
-
-    return Array.from(autoIndexes)
-  }
-
   /**
-   * Parse the schema export (defineSchema call) to understand table mappings
+   * Parse the schema export (defineSchema call) to understand table mappings.
+   * Also returns the keys of every table defineSchema() gets, or undefined when a spread
+   * can't be followed.
    */
-  private parseSchemaExport(
-    _variableToTableMap: Record<string, string>
-  ): Record<string, string> {
-    const schemaExport: Record<string, string> = {}
+  private parseSchemaExport(): {
+    mapping: Record<string, ts.Symbol>
+    keys: string[] | undefined
+  } {
+    const schemaExport: Record<string, ts.Symbol> = {}
+    let keys: Set<string> | undefined
 
     // Look for export default defineSchema() calls
     const exportStatements = this.findExportStatements()
 
     for (const exportStmt of exportStatements) {
       if (this.isDefineSchemaCall(exportStmt)) {
+        keys ??= new Set()
         const tableMapping = this.extractTableMappingFromDefineSchema(
-          exportStmt as ts.ExportAssignment
+          exportStmt as ts.ExportAssignment,
+          keys
         )
         Object.assign(schemaExport, tableMapping)
       }
     }
 
-    return schemaExport
+    return {
+      mapping: schemaExport,
+      keys: keys && !keys.has(UNKNOWN_TABLES) ? Array.from(keys) : undefined,
+    }
   }
 
   private findExportStatements(): ts.ExportAssignment[] {
     const exports: ts.ExportAssignment[] = []
 
     const visit = (node: ts.Node) => {
-      if (ts.isExportAssignment(node) && node.isExportEquals === false) {
+      if (ts.isExportAssignment(node) && !node.isExportEquals) {
         exports.push(node)
       }
       ts.forEachChild(node, visit)
@@ -497,24 +1290,70 @@ export class SchemaParser {
   }
 
   private extractTableMappingFromDefineSchema(
-    node: ts.ExportAssignment
-  ): Record<string, string> {
-    const mapping: Record<string, string> = {}
-
-    if (!ts.isCallExpression(node.expression)) return mapping
+    node: ts.ExportAssignment,
+    keys: Set<string>
+  ): Record<string, ts.Symbol> {
+    if (!ts.isCallExpression(node.expression)) return {}
 
     const firstArg = node.expression.arguments[0]
-    if (!ts.isObjectLiteralExpression(firstArg)) return mapping
+    if (!firstArg || !ts.isObjectLiteralExpression(firstArg)) {
+      keys.add(UNKNOWN_TABLES)
+      return {}
+    }
+
+    return this.extractTableMapping(firstArg, keys)
+  }
+
+  private extractTableMapping(
+    node: ts.ObjectLiteralExpression,
+    keys: Set<string>
+  ): Record<string, ts.Symbol> {
+    const mapping: Record<string, ts.Symbol> = {}
+
+    for (const property of node.properties) {
+      if (
+        !ts.isPropertyAssignment(property) &&
+        !ts.isSpreadAssignment(property)
+      ) {
+        keys.add(UNKNOWN_TABLES)
+      }
 
-    for (const property of firstArg.properties) {
       if (ts.isPropertyAssignment(property)) {
         const key = this.getPropertyKey(property)
-        const variableName = this.extractVariableFromToConvexTableCall(
+        keys.add(key ?? UNKNOWN_TABLES)
+        const tableReference = this.extractTableFromToConvexTableCall(
           property.initializer
         )
+        const symbol = tableReference && this.resolveSymbol(tableReference)
 
-        if (key && variableName) {
-          mapping[key] = variableName
+        if (key && symbol) {
+          mapping[key] = symbol
+        }
+      }
+
+      // Handle tables combined from other files, e.g. { ...billingTables }
+      if (ts.isSpreadAssignment(property)) {
+        const declaration = this.resolveSymbol(property.expression)
+          ?.valueDeclaration
+
+        if (
+          declaration &&
+          ts.isVariableDeclaration(declaration) &&
+          declaration.initializer &&
+          ts.isObjectLiteralExpression(declaration.initializer)
+        ) {
+          Object.assign(
+            mapping,
+            this.extractTableMapping(declaration.initializer, keys)
+          )
+        } else if (
+          ts.isIdentifier(property.expression) &&
+          property.expression.text === 'convexSqlTables'
+        ) {
+          // The generated _sql/tables.ts, before it was first written
+          keys.add(REFS_TABLE).add(SEQUENCES_TABLE)
+        } else {
+          keys.add(UNKNOWN_TABLES)
         }
       }
     }
@@ -531,16 +1370,24 @@ export class SchemaParser {
     return null
   }
 
-  private extractVariableFromToConvexTableCall(node: ts.Node): string | null {
+  private extractTableFromToConvexTableCall(
+    node: ts.Node
+  ): ts.Expression | null {
+    // Tables can also be passed to defineSchema() directly
+    if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+      return node
+    }
+
     if (!ts.isCallExpression(node)) return null
 
     if (
       ts.isPropertyAccessExpression(node.expression) &&
       ts.isIdentifier(node.expression.name) &&
       node.expression.name.text === 'toConvexTable' &&
-      ts.isIdentifier(node.expression.expression)
+      (ts.isIdentifier(node.expression.expression) ||
+        ts.isPropertyAccessExpression(node.expression.expression))
     ) {
-      return node.expression.expression.text
+      return node.expression.expression
     }
 
     return null
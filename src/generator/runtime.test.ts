@@ -0,0 +1,369 @@
+import { loadRuntime } from '../test/runtime'
+
+const USERS_SCHEMA = `
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Users = Table('users', {
+  email: v.string(),
+}).constraints((c) => [c.unique('email')])
+
+export default defineSchema({ users: Users.toConvexTable() })
+`
+
+const MEMBERS_SCHEMA = `
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Members = Table('members', {
+  orgId: v.string(),
+  email: v.string(),
+}).constraints((c) => [
+  c.unique('email', { normalize: 'lowercase' }),
+  c.unique(['orgId', 'email']),
+])
+
+export default defineSchema({ members: Members.toConvexTable() })
+`
+
+const PROJECTS_SCHEMA = `
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Owners = Table('owners', { name: v.string() })
+
+const Projects = Table('projects', {
+  ownerId: v.id('owners'),
+  deletedAt: v.optional(v.number()),
+})
+  .softDelete('deletedAt')
+  .constraints((c) => [c.relation('ownerId', Owners, { onDelete: 'cascade' })])
+
+const Issues = Table('issues', {
+  projectId: v.id('projects'),
+  deletedAt: v.optional(v.number()),
+})
+  .softDelete('deletedAt')
+  .constraints((c) => [c.relation('projectId', Projects, { onDelete: 'cascade' })])
+
+const Notes = Table('notes', {
+  projectId: v.optional(v.id('projects')),
+}).constraints((c) => [c.relation('projectId', Projects, { onDelete: 'setNull' })])
+
+export default defineSchema({
+  owners: Owners.toConvexTable(),
+  projects: Projects.toConvexTable(),
+  issues: Issues.toConvexTable(),
+  notes: Notes.toConvexTable(),
+})
+`
+
+const DOCUMENTS_SCHEMA = `
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Users = Table('users', { name: v.string() })
+
+const Documents = Table('documents', {
+  ownerId: v.id('users'),
+}).constraints((c) => [
+  c.default('ownerId', 'users|1'),
+  c.relation('ownerId', Users, { onDelete: 'setDefault' }),
+])
+
+export default defineSchema({
+  users: Users.toConvexTable(),
+  documents: Documents.toConvexTable(),
+})
+`
+
+const POSTS_SCHEMA = `
+import { Table } from 'convex-sql'
+import { defineSchema } from 'convex/server'
+import { v } from 'convex/values'
+
+const Users = Table('users', { name: v.string() })
+
+const Posts = Table('posts', {
+  authorId: v.id('users'),
+}).constraints((c) => [c.relation('authorId', Users, { onDelete: 'cascade' })])
+
+const Comments = Table('comments', {
+  postId: v.id('posts'),
+  authorId: v.id('users'),
+}).constraints((c) => [
+  c.relation('postId', Posts, { onDelete: 'cascade' }),
+  c.relation('authorId', Users, { onDelete: 'restrict' }),
+])
+
+const Flags = Table('flags', {
+  postId: v.id('posts'),
+}).constraints((c) => [c.relation('postId', Posts, { onDelete: 'restrict' })])
+
+const Drafts = Table('drafts', {
+  editorId: v.optional(v.id('users')),
+}).constraints((c) => [c.relation('editorId', Users, { onDelete: 'setNull' })])
+
+export default defineSchema({
+  users: Users.toConvexTable(),
+  posts: Posts.toConvexTable(),
+  comments: Comments.toConvexTable(),
+  flags: Flags.toConvexTable(),
+  drafts: Drafts.toConvexTable(),
+})
+`
+
+describe('generated runtime', () => {
+  describe('result mode', () => {
+    it('returns constraint violations', async () => {
+      const runtime = loadRuntime(USERS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        await db.insert('users', { email: 'a@x.com' })
+        return db.insert('users', { email: 'a@x.com' })
+      })
+
+      expect(result).toEqual({
+        data: null,
+        error: expect.objectContaining({ kind: 'unique', table: 'users' }),
+      })
+      expect(runtime.db.all('users')).toHaveLength(1)
+    })
+
+    it('returns the data of successful operations', async () => {
+      const runtime = loadRuntime(USERS_SCHEMA)
+
+      const result = await runtime.mutation(({ db }) =>
+        db.insert('users', { email: 'a@x.com' })
+      )
+
+      expect(result).toEqual({ data: 'users|1', error: null })
+    })
+  })
+
+  describe('throw mode', () => {
+    it('throws constraint violations', async () => {
+      const runtime = loadRuntime(USERS_SCHEMA, { errors: 'throw' })
+
+      await expect(
+        runtime.mutation(async ({ db }) => {
+          await db.insert('users', { email: 'a@x.com' })
+          await db.insert('users', { email: 'a@x.com' })
+        })
+      ).rejects.toMatchObject({ data: { kind: 'unique' } })
+    })
+  })
+
+  describe('normalized unique constraints', () => {
+    it('compares normalized fields through their shadow field', async () => {
+      const runtime = loadRuntime(MEMBERS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        await db.insert('members', { orgId: 'a', email: 'Ann@x.com' })
+        return db.insert('members', { orgId: 'b', email: 'ann@x.com' })
+      })
+
+      expect(result.error).toMatchObject({ kind: 'unique', field: 'email' })
+      expect(runtime.db.all('members')[0]).toMatchObject({
+        email_normalized: 'ann@x.com',
+      })
+    })
+
+    it('looks up other constraints on the field by its raw value', async () => {
+      const runtime = loadRuntime(MEMBERS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        const id = await db.insert('members', { orgId: 'a', email: 'ann@x.com' })
+        return db.patch(id.data, { orgId: 'b' })
+      })
+
+      expect(result).toEqual({ data: 'members|1', error: null })
+      expect(runtime.db.all('members')[0]).toMatchObject({ orgId: 'b' })
+    })
+  })
+
+  describe('soft deletes', () => {
+    it('soft-deletes children in soft-delete tables and keeps foreign keys', async () => {
+      const runtime = loadRuntime(PROJECTS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        const ownerId = await db.insert('owners', { name: 'Ann' })
+        const projectId = await db.insert('projects', { ownerId: ownerId.data })
+        await db.insert('issues', { projectId: projectId.data })
+        await db.insert('notes', { projectId: projectId.data })
+        return db.delete('projects', projectId.data)
+      })
+
+      expect(result).toMatchObject({ error: null, deleted: { projects: 1, issues: 1 } })
+      expect(runtime.db.all('projects')[0].deletedAt).toEqual(expect.any(Number))
+      expect(runtime.db.all('issues')[0].deletedAt).toEqual(expect.any(Number))
+      expect(runtime.db.all('notes')[0].projectId).toBe('projects|2')
+    })
+
+    it('removes every dependent on a hard delete', async () => {
+      const runtime = loadRuntime(PROJECTS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        const ownerId = await db.insert('owners', { name: 'Ann' })
+        const projectId = await db.insert('projects', { ownerId: ownerId.data })
+        const issueId = await db.insert('issues', { projectId: projectId.data })
+        await db.insert('issues', { projectId: projectId.data })
+        await db.delete('issues', issueId.data)
+        return db.delete('owners', ownerId.data)
+      })
+
+      expect(result).toMatchObject({
+        error: null,
+        deleted: { owners: 1, projects: 1, issues: 2 },
+      })
+      expect(runtime.db.all('projects')).toEqual([])
+      expect(runtime.db.all('issues')).toEqual([])
+    })
+
+    it('leaves soft-deleted records out of loaded relations', async () => {
+      const runtime = loadRuntime(PROJECTS_SCHEMA)
+
+      await runtime.mutation(async ({ db }) => {
+        const ownerId = await db.insert('owners', { name: 'Ann' })
+        const projectId = await db.insert('projects', { ownerId: ownerId.data })
+        await db.insert('notes', { projectId: projectId.data })
+        await db.delete('projects', projectId.data)
+      })
+      const notes = await runtime.query(({ db }) =>
+        db.query('notes').with({ project: true }).collect()
+      )
+
+      expect(notes).toEqual([expect.objectContaining({ project: null })])
+    })
+  })
+
+  describe('setDefault', () => {
+    it('resets foreign keys to their default', async () => {
+      const runtime = loadRuntime(DOCUMENTS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        await db.insert('users', { name: 'Admin' })
+        const userId = await db.insert('users', { name: 'Ann' })
+        await db.insert('documents', { ownerId: userId.data })
+        return db.delete('users', userId.data)
+      })
+
+      expect(result.error).toBeNull()
+      expect(runtime.db.all('documents')[0].ownerId).toBe('users|1')
+    })
+
+    it('restricts deleting the record the default references', async () => {
+      const runtime = loadRuntime(DOCUMENTS_SCHEMA)
+
+      const [preview, result] = await runtime.mutation(async (ctx) => {
+        const adminId = await ctx.db.insert('users', { name: 'Admin' })
+        await ctx.db.insert('documents', {})
+        return [
+          await runtime.exports.previewDelete(ctx, 'users', adminId.data),
+          await ctx.db.delete('users', adminId.data),
+        ]
+      })
+
+      expect(preview).toMatchObject({
+        canDelete: false,
+        blockedBy: [{ table: 'documents', field: 'ownerId', count: 1 }],
+      })
+      expect(result.error).toMatchObject({ kind: 'restrict', relatedTable: 'documents' })
+      expect(runtime.db.all('users')).toHaveLength(1)
+    })
+  })
+
+  describe('deletes', () => {
+    // A user with two posts, commented on by the user and by someone else
+    async function seed(db: any) {
+      const authorId = (await db.insert('users', { name: 'Ann' })).data
+      const otherId = (await db.insert('users', { name: 'Bob' })).data
+      const postIds = [
+        (await db.insert('posts', { authorId })).data,
+        (await db.insert('posts', { authorId })).data,
+      ]
+      await db.insert('comments', { postId: postIds[0], authorId })
+      await db.insert('comments', { postId: postIds[0], authorId: otherId })
+      await db.insert('comments', { postId: postIds[1], authorId: otherId })
+      await db.insert('drafts', { editorId: authorId })
+      return { authorId, otherId, postIds }
+    }
+
+    it('cascades through the relation graph', async () => {
+      const runtime = loadRuntime(POSTS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        const { authorId } = await seed(db)
+        return db.delete('users', authorId)
+      })
+
+      // The author's own comment goes with the post, so its restrict rule doesn't apply
+      expect(result).toMatchObject({
+        error: null,
+        deleted: { users: 1, posts: 2, comments: 3 },
+      })
+      expect(runtime.db.all('users')).toHaveLength(1)
+      expect(runtime.db.all('comments')).toEqual([])
+      expect(runtime.db.all('drafts')[0]).not.toHaveProperty('editorId')
+    })
+
+    it('leaves everything in place when a restrict rule blocks the delete', async () => {
+      const runtime = loadRuntime(POSTS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        const { authorId, postIds } = await seed(db)
+        await db.insert('flags', { postId: postIds[1] })
+        return db.delete('users', authorId)
+      })
+
+      expect(result.error).toMatchObject({
+        kind: 'restrict',
+        table: 'posts',
+        relatedTable: 'flags',
+        count: 1,
+      })
+      expect(runtime.db.all('users')).toHaveLength(2)
+      expect(runtime.db.all('posts')).toHaveLength(2)
+      expect(runtime.db.all('comments')).toHaveLength(3)
+      expect(runtime.db.all('drafts')[0]).toHaveProperty('editorId')
+    })
+
+    it('blocks deleting a record that restricted children reference', async () => {
+      const runtime = loadRuntime(POSTS_SCHEMA)
+
+      const result = await runtime.mutation(async ({ db }) => {
+        const { otherId } = await seed(db)
+        return db.delete('users', otherId)
+      })
+
+      expect(result.error).toMatchObject({
+        kind: 'restrict',
+        table: 'users',
+        relatedTable: 'comments',
+        field: 'authorId',
+        count: 2,
+      })
+    })
+
+    it('previews a delete without writing anything', async () => {
+      const runtime = loadRuntime(POSTS_SCHEMA)
+
+      const preview = await runtime.mutation(async (ctx) => {
+        const { authorId } = await seed(ctx.db)
+        return runtime.exports.previewDelete(ctx, 'users', authorId)
+      })
+
+      expect(preview).toEqual({
+        canDelete: true,
+        deleted: { users: 1, posts: 2, comments: 3 },
+        updated: [{ table: 'drafts', field: 'editorId', action: 'setNull', count: 1 }],
+        blockedBy: [],
+      })
+      expect(runtime.db.all('posts')).toHaveLength(2)
+    })
+  })
+})
@@ -1,13 +1,20 @@
 import { watch, FSWatcher } from 'chokidar';
 import { EventEmitter } from 'events';
-import { resolve } from 'path';
+import { relative, resolve } from 'path';
 import { parseSchemaFile } from './parser.js';
-import { generateConstraintCode, writeGeneratedCode } from './codegen.js';
+import { loadSchemaMetadata } from './loader.js';
+import {
+  generateConstraintCode,
+  writeGeneratedCode,
+  writeTablesCode,
+} from './codegen.js';
 
 export interface WatcherOptions {
   schemaPath: string;
   outputDir: string;
   debounceMs?: number;
+  /** Load the schema module instead of parsing its source */
+  runtime?: boolean;
 }
 
 export interface WatcherEvents {
@@ -28,12 +35,13 @@ export class SchemaWatcher extends EventEmitter {
     super();
     this.options = {
       debounceMs: 1000,
+      runtime: false,
       ...options,
     };
   }
 
   /**
-   * Start watching the schema file
+   * Start watching the schema file, and the files it imports once they are known
    */
   start(): void {
     const resolvedSchemaPath = resolve(this.options.schemaPath);
@@ -94,14 +102,29 @@ export class SchemaWatcher extends EventEmitter {
       const resolvedSchemaPath = resolve(this.options.schemaPath);
       const resolvedOutputDir = resolve(this.options.outputDir);
 
-      // Parse schema
-      const schema = parseSchemaFile(resolvedSchemaPath);
+      // Parse schema, or load it when constraints are built at runtime
+      const schema = this.options.runtime
+        ? await loadSchemaMetadata(resolvedSchemaPath)
+        : parseSchemaFile(resolvedSchemaPath);
+
+      // Write the bookkeeping tables first, so the schema can import them
+      writeTablesCode(schema, resolvedOutputDir);
       
       // Generate code
-      const code = generateConstraintCode(schema);
+      const code = generateConstraintCode(schema, {
+        outputDir: resolvedOutputDir,
+      });
       
       // Write generated code
       writeGeneratedCode(code, resolvedOutputDir);
+
+      // Tables and constraints may come from any file the schema imports,
+      // but not from the generated files it imports
+      this.watcher?.add(
+        (schema.files ?? []).filter((file) =>
+          relative(resolvedOutputDir, file).startsWith('..')
+        )
+      );
       
       this.emit('generated', resolvedOutputDir);
     } catch (error) {
@@ -1,11 +1,22 @@
 // Core exports
 export { Table } from './core/Table.js'
+export { isConvexSqlError } from './core/errors.js'
 
 // Type exports
 export type {
   Constraint,
   DeleteAction,
   UniqueConstraint,
+  UniqueNormalize,
   RelationConstraint,
   DefaultValue,
+  CheckConstraint,
+  FieldType,
+  TableMetadata,
+  ConvexSqlError,
+  UniqueViolationError,
+  ForeignKeyViolationError,
+  RestrictViolationError,
+  CheckViolationError,
+  NotFoundError,
 } from './core/types.js'
@@ -0,0 +1,264 @@
+/**
+ * In-memory stand-in for a Convex database, to run the generated runtime against.
+ * Index ranges are checked against the schema's indexes the way Convex checks them:
+ * eq() on a prefix of the index fields, in order, then one range on the next field.
+ */
+
+type Doc = Record<string, any>
+type Condition = { field: string; op: string; value: unknown }
+
+// The indexes of each table, as defineSchema() exports them
+export type SchemaIndexes = Record<string, Array<{ name: string; fields: string[] }>>
+
+export function getSchemaIndexes(schema: {
+  tables: Record<string, { export(): { indexes: any[] } }>
+}): SchemaIndexes {
+  return Object.fromEntries(
+    Object.entries(schema.tables).map(([table, definition]) => [
+      table,
+      definition
+        .export()
+        .indexes.map((index) => ({
+          name: index.indexDescriptor,
+          fields: index.fields,
+        })),
+    ])
+  )
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined) return -1
+  if (b === undefined) return 1
+  return (a as any) < (b as any) ? -1 : 1
+}
+
+function readField(doc: Doc, path: string): unknown {
+  return path.split('.').reduce((value: any, key) => value?.[key], doc)
+}
+
+// Evaluate what a filter builder call returned: a field reference, an expression or a value
+function evaluate(doc: Doc, expression: any): any {
+  if (expression && typeof expression === 'object' && '$op' in expression) {
+    const args = expression.args.map((arg: unknown) => evaluate(doc, arg))
+    switch (expression.$op) {
+      case 'field':
+        return readField(doc, expression.args[0])
+      case 'eq':
+        return compareValues(args[0], args[1]) === 0
+      case 'neq':
+        return compareValues(args[0], args[1]) !== 0
+      case 'lt':
+        return compareValues(args[0], args[1]) < 0
+      case 'lte':
+        return compareValues(args[0], args[1]) <= 0
+      case 'gt':
+        return compareValues(args[0], args[1]) > 0
+      case 'gte':
+        return compareValues(args[0], args[1]) >= 0
+      case 'and':
+        return args.every(Boolean)
+      case 'or':
+        return args.some(Boolean)
+      case 'not':
+        return !args[0]
+    }
+  }
+  return expression
+}
+
+const filterBuilder = new Proxy(
+  {},
+  {
+    get: (_, op: string) =>
+      op === 'field'
+        ? (field: string) => ({ $op: 'field', args: [field] })
+        : (...args: unknown[]) => ({ $op: op, args }),
+  }
+)
+
+export function createMockDb(indexes: SchemaIndexes = {}) {
+  const tables = new Map<string, Map<string, Doc>>()
+  let counter = 0
+
+  const tableOf = (id: string) => id.split('|')[0]
+  const rows = (table: string) => {
+    if (!tables.has(table)) tables.set(table, new Map())
+    return tables.get(table)!
+  }
+  const copy = (doc: Doc | undefined) =>
+    doc ? structuredClone(doc) : null
+
+  const getIndex = (table: string, name: string) => {
+    if (name === 'by_creation_time') return ['_creationTime']
+    if (name === 'by_id') return ['_id']
+    const index = indexes[table]?.find((index) => index.name === name)
+    if (!index) throw new Error(`Index ${table}.${name} not found`)
+    return [...index.fields, '_creationTime']
+  }
+
+  // Check a range the way Convex does, and return its conditions
+  const readRange = (table: string, name: string, range?: (q: any) => any) => {
+    const fields = getIndex(table, name)
+    const conditions: Condition[] = []
+    let bounded = false
+    const builder: any = {}
+    for (const op of ['eq', 'gt', 'gte', 'lt', 'lte']) {
+      builder[op] = (field: string, value: unknown) => {
+        const eqCount = conditions.filter((c) => c.op === 'eq').length
+        const expected = fields[eqCount]
+        if (bounded && op === 'eq') {
+          throw new Error(`Index range on ${table}.${name}: eq('${field}') after a range`)
+        }
+        const sameRange =
+          op !== 'eq' && conditions.some((c) => c.op !== 'eq' && c.field === field)
+        if (field !== expected && !sameRange) {
+          throw new Error(
+            `Index range on ${table}.${name}: expected '${expected}', got '${field}'`
+          )
+        }
+        if (op !== 'eq') bounded = true
+        conditions.push({ field, op, value })
+        return builder
+      }
+    }
+    range?.(builder)
+    return { fields, conditions }
+  }
+
+  const makeQuery = (
+    table: string,
+    state: {
+      fields: string[]
+      conditions: Condition[]
+      filters: Array<(doc: Doc) => boolean>
+      order: 'asc' | 'desc'
+      indexed: boolean
+      ordered: boolean
+    }
+  ): any => {
+    const results = () => {
+      const docs = [...rows(table).values()]
+        .filter((doc) =>
+          state.conditions.every(({ field, op, value }) =>
+            evaluate(doc, { $op: op, args: [{ $op: 'field', args: [field] }, value] })
+          )
+        )
+        .filter((doc) => state.filters.every((filter) => filter(doc)))
+        .sort((a, b) => {
+          for (const field of state.fields) {
+            const order = compareValues(readField(a, field), readField(b, field))
+            if (order !== 0) return order
+          }
+          return 0
+        })
+      return (state.order === 'desc' ? docs.reverse() : docs).map(copy) as Doc[]
+    }
+    const next = (change: Partial<typeof state>) =>
+      makeQuery(table, { ...state, ...change })
+    const assertUnindexed = (method: string) => {
+      if (state.indexed) throw new Error(`${method}() can't follow withIndex()`)
+      if (state.filters.length || state.ordered) {
+        throw new Error(`${method}() must come first`)
+      }
+    }
+
+    return {
+      withIndex: (name: string, range?: (q: any) => any) => {
+        assertUnindexed('withIndex')
+        return next({ ...readRange(table, name, range), indexed: true })
+      },
+      fullTableScan: () => {
+        assertUnindexed('fullTableScan')
+        return next({ indexed: true })
+      },
+      order: (order: 'asc' | 'desc') => {
+        if (state.ordered) throw new Error('order() can only be called once')
+        return next({ order, ordered: true, indexed: true })
+      },
+      filter: (predicate: (q: any) => unknown) =>
+        next({
+          filters: [
+            ...state.filters,
+            (doc) => !!evaluate(doc, predicate(filterBuilder)),
+          ],
+          indexed: true,
+        }),
+      collect: async () => results(),
+      take: async (n: number) => results().slice(0, n),
+      first: async () => results()[0] ?? null,
+      unique: async () => {
+        const docs = results()
+        if (docs.length > 1) throw new Error(`unique() found ${docs.length} documents`)
+        return docs[0] ?? null
+      },
+      paginate: async ({ numItems, cursor }: { numItems: number; cursor: string | null }) => {
+        const start = cursor ? Number(cursor) : 0
+        const docs = results()
+        return {
+          page: docs.slice(start, start + numItems),
+          isDone: start + numItems >= docs.length,
+          continueCursor: String(start + numItems),
+        }
+      },
+      [Symbol.asyncIterator]: async function* () {
+        yield* results()
+      },
+    }
+  }
+
+  return {
+    tables,
+
+    // Documents of a table, for assertions
+    all: (table: string) => [...rows(table).values()].map(copy) as Doc[],
+
+    normalizeId: (table: string, id: string) =>
+      typeof id === 'string' && tableOf(id) === table ? id : null,
+
+    get: async (id: string) => copy(rows(tableOf(id)).get(id)),
+
+    insert: async (table: string, value: Doc) => {
+      const id = `${table}|${++counter}`
+      rows(table).set(id, { ...structuredClone(value), _id: id, _creationTime: counter })
+      return id
+    },
+
+    patch: async (id: string, value: Doc) => {
+      const doc = rows(tableOf(id)).get(id)
+      if (!doc) throw new Error(`Update on nonexistent document ID ${id}`)
+      for (const [key, fieldValue] of Object.entries(value)) {
+        if (fieldValue === undefined) delete doc[key]
+        else doc[key] = structuredClone(fieldValue)
+      }
+    },
+
+    replace: async (id: string, value: Doc) => {
+      const doc = rows(tableOf(id)).get(id)
+      if (!doc) throw new Error(`Replace on nonexistent document ID ${id}`)
+      rows(tableOf(id)).set(id, {
+        ...structuredClone(value),
+        _id: id,
+        _creationTime: doc._creationTime,
+      })
+    },
+
+    delete: async (id: string) => {
+      if (!rows(tableOf(id)).delete(id)) {
+        throw new Error(`Delete on nonexistent document ID ${id}`)
+      }
+    },
+
+    query: (table: string) =>
+      makeQuery(table, {
+        fields: ['_creationTime'],
+        conditions: [],
+        filters: [],
+        order: 'asc',
+        indexed: false,
+        ordered: false,
+      }),
+  }
+}
+
+export type MockDb = ReturnType<typeof createMockDb>
@@ -0,0 +1,122 @@
+/**
+ * Generate the database wrapper for a schema and load it, to test the generated
+ * runtime against a mock db. The wrapper is bundled the way an app bundles it:
+ * its own imports take the ESM builds of convex, while convex-sql comes in as a
+ * CommonJS build that requires the CJS ones.
+ */
+
+import { buildSync } from 'esbuild'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import { generateConstraintCode, writeGeneratedCode, writeTablesCode } from '../generator/codegen.js'
+import { parseSchemaFile } from '../generator/parser.js'
+import { createMockDb, getSchemaIndexes, MockDb } from './mockDb.js'
+
+const ROOT = resolve(__dirname, '../..')
+
+const DATA_MODEL = `import type { DataModelFromSchemaDefinition, DocumentByName, TableNamesInDataModel, SystemTableNames } from 'convex/server'
+import type { GenericId } from 'convex/values'
+import schema from '../schema'
+export type DataModel = DataModelFromSchemaDefinition<typeof schema>
+export type TableNames = TableNamesInDataModel<DataModel>
+export type Doc<T extends TableNames> = DocumentByName<DataModel, T>
+export type Id<T extends TableNames | SystemTableNames> = GenericId<T>
+`
+
+const SERVER = `import type { GenericMutationCtx, GenericQueryCtx } from 'convex/server'
+import type { DataModel } from './dataModel'
+export type MutationCtx = GenericMutationCtx<DataModel>
+export type QueryCtx = GenericQueryCtx<DataModel>
+`
+
+// Stands in for a mutation or query builder, handing back the wrapped definition
+const builder = (definition: any) => definition
+
+export type Runtime = {
+  db: MockDb
+  // Run a handler through the generated mutation wrapper
+  mutation<R>(handler: (ctx: any) => Promise<R>): Promise<R>
+  // Run a handler through the generated query wrapper
+  query<R>(handler: (ctx: any) => Promise<R>): Promise<R>
+  // The generated module's exports
+  exports: Record<string, any>
+}
+
+let convexSqlBuild: string | undefined
+
+// Build convex-sql the way it is published, once per test file
+function buildConvexSql(): string {
+  if (!convexSqlBuild) {
+    convexSqlBuild = buildSync({
+      entryPoints: [join(ROOT, 'src/index.ts')],
+      bundle: true,
+      write: false,
+      packages: 'external',
+      platform: 'node',
+      format: 'cjs',
+      logLevel: 'error',
+    }).outputFiles[0].text
+  }
+  return convexSqlBuild
+}
+
+/**
+ * Generate the wrapper for a schema, given as the source of convex/schema.ts
+ */
+export function loadRuntime(
+  schemaSource: string,
+  options: { errors?: 'throw' | 'result' } = {}
+): Runtime {
+  const dir = mkdtempSync(join(tmpdir(), 'convex-sql-app-'))
+  try {
+    const convexDir = join(dir, 'convex')
+    const outputDir = join(convexDir, '_sql')
+    mkdirSync(join(convexDir, '_generated'), { recursive: true })
+    writeFileSync(join(convexDir, 'schema.ts'), schemaSource)
+    writeFileSync(join(convexDir, '_generated/dataModel.ts'), DATA_MODEL)
+    writeFileSync(join(convexDir, '_generated/server.ts'), SERVER)
+
+    const schema = parseSchemaFile(join(convexDir, 'schema.ts'))
+    writeTablesCode(schema, outputDir)
+    writeGeneratedCode(generateConstraintCode(schema, { outputDir }), outputDir)
+
+    writeFileSync(join(dir, 'convex-sql.js'), buildConvexSql())
+    writeFileSync(
+      join(dir, 'entry.ts'),
+      `export * from './convex/_sql/db'\nexport { default as schema } from './convex/schema'\n`
+    )
+    const bundle = buildSync({
+      entryPoints: [join(dir, 'entry.ts')],
+      bundle: true,
+      write: false,
+      platform: 'node',
+      format: 'cjs',
+      mainFields: ['module', 'main'],
+      nodePaths: [join(ROOT, 'node_modules')],
+      alias: { 'convex-sql': join(dir, 'convex-sql.js') },
+      logLevel: 'error',
+    })
+
+    const module = { exports: {} as Record<string, any> }
+    new Function('module', 'exports', 'require', bundle.outputFiles[0].text)(
+      module,
+      module.exports,
+      require
+    )
+    const exports = module.exports
+
+    const db = createMockDb(getSchemaIndexes(exports.schema))
+    const ctx = { db, auth: { getUserIdentity: async () => null } }
+    const { mutation, query } = exports.withConstraints(builder, builder, options)
+
+    return {
+      db,
+      exports,
+      mutation: (handler) => mutation({ handler }).handler(ctx, {}),
+      query: (handler) => query({ handler }).handler(ctx, {}),
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}